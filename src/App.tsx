@@ -4,6 +4,8 @@ import eagleLogo from "./assets/eagle.png";
 import viteLogo from "/vite.svg";
 
 import { backgroundService } from "./webdav/background";
+import { SavedFilter } from "./webdav/types";
+import { getAllItemsGrouping, getAllItemsPageSize, getCustomCertificatePaths, getFilenameTemplates, getFolderDeleteMode, getHTTPSPort, getLibraryCacheTTL, getSavedFilters, isHTTPSEnabled, isHTTPSRedirectEnabled, isMetadataSidecarMode, isReadOnlyMode, removeSavedFilter, saveFilter, setAllItemsGrouping, setAllItemsPageSize, setCustomCertificatePaths, setFilenameTemplate, setFolderDeleteMode, setHTTPSEnabled, setHTTPSPort, setHTTPSRedirectEnabled, setLibraryCacheTTL, setMetadataSidecarMode, setReadOnlyMode, AllItemsGrouping, FolderDeleteMode } from "./webdav/settings";
 
 // Helper function to get translation
 const t = (key: string, defaultValue?: string): string => {
@@ -25,13 +27,54 @@ interface ConnectionInfo {
   url: string;
   username: string;
   password: string;
+  fingerprint?: string;
 }
 
+interface ServerSettings {
+  readOnly: boolean;
+  folderDeleteMode: FolderDeleteMode;
+  savedFilters: SavedFilter[];
+  allItemsGrouping: AllItemsGrouping;
+  allItemsPageSize: number;
+  sidecars: boolean;
+  libraryCacheTTL: number;
+  filenameTemplates: Record<string, string>;
+  https: boolean;
+  httpsPort: number;
+  httpsRedirect: boolean;
+}
+
+// Routes that list items and can have their own filename template
+// (thumbnails follow the route they mirror)
+const TEMPLATE_ROUTES = ['hierarchy', 'folders', 'tags', 'allItems', 'smart', 'search', 'timeline', 'types', 'colors', 'ratings'];
+
+// Current values of the settings shown in the settings card
+const readSettings = (): ServerSettings => ({
+  readOnly: isReadOnlyMode(),
+  folderDeleteMode: getFolderDeleteMode(),
+  savedFilters: getSavedFilters(),
+  allItemsGrouping: getAllItemsGrouping(),
+  allItemsPageSize: getAllItemsPageSize(),
+  sidecars: isMetadataSidecarMode(),
+  libraryCacheTTL: getLibraryCacheTTL(),
+  filenameTemplates: getFilenameTemplates(),
+  https: isHTTPSEnabled(),
+  httpsPort: getHTTPSPort(),
+  httpsRedirect: isHTTPSRedirectEnabled(),
+});
+
 function App() {
     
   const mode = "dark"; // Just use dark theme
   const [status, setStatus] = useState<ServiceStatus | null>(null);
   const [connectionInfo, setConnectionInfo] = useState<ConnectionInfo | null>(null);
+  const [settings, setSettings] = useState<ServerSettings>(readSettings);
+  const [newFilterName, setNewFilterName] = useState('');
+  const [newFilterJSON, setNewFilterJSON] = useState('');
+  const [newTemplateRoute, setNewTemplateRoute] = useState('*');
+  const [newTemplate, setNewTemplate] = useState('');
+  const [certPath, setCertPath] = useState(() => getCustomCertificatePaths()?.certPath || '');
+  const [keyPath, setKeyPath] = useState(() => getCustomCertificatePaths()?.keyPath || '');
 
   
   useEffect(() => {
@@ -104,6 +147,59 @@ function App() {
     }
   };
 
+  const updateSetting = (apply: () => void) => {
+    apply();
+    setSettings(readSettings());
+  };
+
+  const handleAddFilter = () => {
+    const name = newFilterName.trim();
+    let filter = null;
+    try {
+      filter = JSON.parse(newFilterJSON);
+    } catch (error) {
+      console.error('[DEBUG] Invalid saved filter JSON:', error);
+    }
+
+    if (!name || name.includes('/') || !filter || typeof filter !== 'object' || Array.isArray(filter)) {
+      if (typeof eagle !== 'undefined' && eagle.notification) {
+        eagle.notification.show({
+          title: t('settings.savedFilters', 'Saved filters'),
+          description: t('settings.invalidFilter', 'Enter a name without "/" and a JSON object such as {"tags": ["red"]}'),
+          duration: 3000
+        });
+      }
+      return;
+    }
+
+    updateSetting(() => saveFilter(name, filter));
+    setNewFilterName('');
+    setNewFilterJSON('');
+  };
+
+  const handleSaveTemplate = () => {
+    updateSetting(() => setFilenameTemplate(newTemplateRoute, newTemplate.trim() || null));
+    setNewTemplate('');
+  };
+
+  const handleSaveCertificate = () => {
+    const cert = certPath.trim();
+    const key = keyPath.trim();
+
+    if (!cert !== !key) {
+      if (typeof eagle !== 'undefined' && eagle.notification) {
+        eagle.notification.show({
+          title: t('settings.certificate', 'Certificate files'),
+          description: t('settings.invalidCertificate', 'Enter both the certificate and the private key path, or leave both empty'),
+          duration: 3000
+        });
+      }
+      return;
+    }
+
+    updateSetting(() => setCustomCertificatePaths(cert ? { certPath: cert, keyPath: key } : null));
+  };
+
   const copyToClipboard = (text: string) => {
     if (typeof eagle !== 'undefined' && eagle.clipboard) {
       eagle.clipboard.writeText(text);
@@ -151,7 +247,7 @@ function App() {
         <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-4 min-h-0">
           
           {/* Left Column */}
-          <div className="space-y-4">
+          <div className="space-y-4 overflow-y-auto min-h-0">
             {/* Server Status Card - Compact */}
             <div className="card bg-base-200 shadow-lg">
               <div className="card-body p-4">
@@ -203,6 +299,243 @@ function App() {
                 </div>
               </div>
             </div>
+
+            {/* Settings Card */}
+            <div className="card bg-base-200 shadow-lg">
+              <div className="card-body p-4">
+                <h2 className="card-title text-lg">{t('settings.title', 'Settings')}</h2>
+
+                <div className="space-y-3 text-sm">
+                  <label className="flex items-center justify-between gap-2 cursor-pointer">
+                    <div>
+                      <span className="font-semibold block">{t('settings.readOnly', 'Read-only mode')}</span>
+                      <span className="text-xs opacity-60">{t('settings.readOnlyDesc', 'Reject uploads, deletes, moves and metadata edits')}</span>
+                    </div>
+                    <input 
+                      type="checkbox" 
+                      className="toggle toggle-sm"
+                      checked={settings.readOnly}
+                      onChange={(e) => updateSetting(() => setReadOnlyMode(e.target.checked))}
+                    />
+                  </label>
+
+                  <label className="flex items-center justify-between gap-2">
+                    <div>
+                      <span className="font-semibold block">{t('settings.folderDelete', 'Delete in folders')}</span>
+                      <span className="text-xs opacity-60">{t('settings.folderDeleteDesc', 'What DELETE does to a file in /folders or /hierarchy')}</span>
+                    </div>
+                    <select 
+                      className="select select-bordered select-sm"
+                      value={settings.folderDeleteMode}
+                      onChange={(e) => updateSetting(() => setFolderDeleteMode(e.target.value as FolderDeleteMode))}
+                    >
+                      <option value="trash">{t('settings.folderDeleteTrash', 'Move to trash')}</option>
+                      <option value="unlink">{t('settings.folderDeleteUnlink', 'Remove from folder')}</option>
+                    </select>
+                  </label>
+
+                  <div>
+                    <span className="font-semibold block">{t('settings.savedFilters', 'Saved filters')}</span>
+                    <span className="text-xs opacity-60">{t('settings.savedFiltersDesc', 'Smart folders listed under /smart/saved/, as eagle.item.get options')}</span>
+                    {settings.savedFilters.map((entry) => (
+                      <div key={entry.name} className="flex items-center gap-1 mt-1">
+                        <span className="font-mono text-xs flex-1 truncate">{entry.name}: {JSON.stringify(entry.filter)}</span>
+                        <button 
+                          className="btn btn-outline btn-xs"
+                          onClick={() => updateSetting(() => removeSavedFilter(entry.name))}
+                        >
+                          {t('settings.remove', 'Remove')}
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex gap-1 mt-1">
+                      <input 
+                        type="text" 
+                        placeholder={t('settings.filterName', 'Name')}
+                        value={newFilterName}
+                        onChange={(e) => setNewFilterName(e.target.value)}
+                        className="input input-bordered input-sm w-28 text-xs"
+                      />
+                      <input 
+                        type="text" 
+                        placeholder='{"tags": ["red"]}'
+                        value={newFilterJSON}
+                        onChange={(e) => setNewFilterJSON(e.target.value)}
+                        className="input input-bordered input-sm flex-1 text-xs font-mono"
+                      />
+                      <button className="btn btn-outline btn-sm px-2" onClick={handleAddFilter}>
+                        {t('settings.add', 'Add')}
+                      </button>
+                    </div>
+                  </div>
+
+                  <label className="flex items-center justify-between gap-2">
+                    <div>
+                      <span className="font-semibold block">{t('settings.allItemsGrouping', 'Split /allItems by')}</span>
+                      <span className="text-xs opacity-60">{t('settings.allItemsGroupingDesc', 'Used for libraries over 5000 items')}</span>
+                    </div>
+                    <select 
+                      className="select select-bordered select-sm"
+                      value={settings.allItemsGrouping}
+                      onChange={(e) => updateSetting(() => setAllItemsGrouping(e.target.value as AllItemsGrouping))}
+                    >
+                      <option value="page">{t('settings.groupingPage', 'Page')}</option>
+                      <option value="month">{t('settings.groupingMonth', 'Import month')}</option>
+                      <option value="letter">{t('settings.groupingLetter', 'First letter')}</option>
+                    </select>
+                  </label>
+
+                  {settings.allItemsGrouping === 'page' && (
+                    <label className="flex items-center justify-between gap-2">
+                      <span className="font-semibold">{t('settings.allItemsPageSize', 'Items per page')}</span>
+                      <input 
+                        type="number" 
+                        min={1}
+                        max={5000}
+                        key={settings.allItemsPageSize}
+                        defaultValue={settings.allItemsPageSize}
+                        onBlur={(e) => updateSetting(() => setAllItemsPageSize(parseInt(e.target.value, 10)))}
+                        className="input input-bordered input-sm w-24 text-xs"
+                      />
+                    </label>
+                  )}
+
+                  <label className="flex items-center justify-between gap-2 cursor-pointer">
+                    <div>
+                      <span className="font-semibold block">{t('settings.sidecars', 'Metadata sidecars')}</span>
+                      <span className="text-xs opacity-60">{t('settings.sidecarsDesc', 'List .eagle.json and .xmp files next to every item')}</span>
+                    </div>
+                    <input 
+                      type="checkbox" 
+                      className="toggle toggle-sm"
+                      checked={settings.sidecars}
+                      onChange={(e) => updateSetting(() => setMetadataSidecarMode(e.target.checked))}
+                    />
+                  </label>
+
+                  <label className="flex items-center justify-between gap-2">
+                    <div>
+                      <span className="font-semibold block">{t('settings.cacheTTL', 'Library cache (seconds)')}</span>
+                      <span className="text-xs opacity-60">{t('settings.cacheTTLDesc', 'How long library listings are reused; changes in Eagle refresh them sooner')}</span>
+                    </div>
+                    <input 
+                      type="number" 
+                      min={1}
+                      key={settings.libraryCacheTTL}
+                      defaultValue={settings.libraryCacheTTL}
+                      onBlur={(e) => updateSetting(() => setLibraryCacheTTL(parseInt(e.target.value, 10)))}
+                      className="input input-bordered input-sm w-24 text-xs"
+                    />
+                  </label>
+
+                  <div>
+                    <span className="font-semibold block">{t('settings.filenameTemplates', 'Filename templates')}</span>
+                    <span className="text-xs opacity-60">{t('settings.filenameTemplatesDesc', 'Tokens: {id} {name} {ext} {star} {tag} {date} {width} {height}')}</span>
+                    {Object.entries(settings.filenameTemplates).map(([route, template]) => (
+                      <div key={route} className="flex items-center gap-1 mt-1">
+                        <span className="font-mono text-xs flex-1 truncate">
+                          {route === '*' ? t('settings.allRoutes', 'All routes') : `/${route}/`}: {template}
+                        </span>
+                        <button 
+                          className="btn btn-outline btn-xs"
+                          onClick={() => updateSetting(() => setFilenameTemplate(route, null))}
+                        >
+                          {t('settings.remove', 'Remove')}
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex gap-1 mt-1">
+                      <select 
+                        className="select select-bordered select-sm w-28 text-xs"
+                        value={newTemplateRoute}
+                        onChange={(e) => setNewTemplateRoute(e.target.value)}
+                      >
+                        <option value="*">{t('settings.allRoutes', 'All routes')}</option>
+                        {TEMPLATE_ROUTES.map((route) => (
+                          <option key={route} value={route}>/{route}/</option>
+                        ))}
+                      </select>
+                      <input 
+                        type="text" 
+                        placeholder="{name}_{width}x{height}.{ext}"
+                        value={newTemplate}
+                        onChange={(e) => setNewTemplate(e.target.value)}
+                        className="input input-bordered input-sm flex-1 text-xs font-mono"
+                      />
+                      <button className="btn btn-outline btn-sm px-2" onClick={handleSaveTemplate}>
+                        {t('settings.save', 'Save')}
+                      </button>
+                    </div>
+                  </div>
+
+                  <label className="flex items-center justify-between gap-2 cursor-pointer">
+                    <div>
+                      <span className="font-semibold block">{t('settings.https', 'HTTPS')}</span>
+                      <span className="text-xs opacity-60">{t('settings.httpsDesc', 'Also serve over TLS; restart the server to apply HTTPS changes')}</span>
+                    </div>
+                    <input 
+                      type="checkbox" 
+                      className="toggle toggle-sm"
+                      checked={settings.https}
+                      onChange={(e) => updateSetting(() => setHTTPSEnabled(e.target.checked))}
+                    />
+                  </label>
+
+                  {settings.https && (
+                    <>
+                      <label className="flex items-center justify-between gap-2">
+                        <span className="font-semibold">{t('settings.httpsPort', 'HTTPS port')}</span>
+                        <input 
+                          type="number" 
+                          min={1}
+                          max={65535}
+                          key={settings.httpsPort}
+                          defaultValue={settings.httpsPort}
+                          onBlur={(e) => updateSetting(() => setHTTPSPort(parseInt(e.target.value, 10)))}
+                          className="input input-bordered input-sm w-24 text-xs"
+                        />
+                      </label>
+
+                      <label className="flex items-center justify-between gap-2 cursor-pointer">
+                        <span className="font-semibold">{t('settings.httpsRedirect', 'Redirect HTTP to HTTPS')}</span>
+                        <input 
+                          type="checkbox" 
+                          className="toggle toggle-sm"
+                          checked={settings.httpsRedirect}
+                          onChange={(e) => updateSetting(() => setHTTPSRedirectEnabled(e.target.checked))}
+                        />
+                      </label>
+
+                      <div>
+                        <span className="font-semibold block">{t('settings.certificate', 'Certificate files')}</span>
+                        <span className="text-xs opacity-60">{t('settings.certificateDesc', 'PEM certificate and key; leave both empty to use a self-signed certificate')}</span>
+                        <div className="flex flex-col gap-1 mt-1">
+                          <input 
+                            type="text" 
+                            placeholder={t('settings.certPath', 'Certificate path')}
+                            value={certPath}
+                            onChange={(e) => setCertPath(e.target.value)}
+                            className="input input-bordered input-sm text-xs font-mono"
+                          />
+                          <div className="flex gap-1">
+                            <input 
+                              type="text" 
+                              placeholder={t('settings.keyPath', 'Private key path')}
+                              value={keyPath}
+                              onChange={(e) => setKeyPath(e.target.value)}
+                              className="input input-bordered input-sm flex-1 text-xs font-mono"
+                            />
+                            <button className="btn btn-outline btn-sm px-2" onClick={handleSaveCertificate}>
+                              {t('settings.save', 'Save')}
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
           </div>
 
           {/* Right Column - Connection Info */}
@@ -268,6 +601,26 @@ function App() {
                       </div>
                     </div>
                   </div>
+
+                  {connectionInfo?.fingerprint && (
+                    <div>
+                      <label className="font-semibold block mb-1">{t('connection.fingerprint', 'Certificate Fingerprint (SHA-256)')}:</label>
+                      <div className="flex gap-1">
+                        <input 
+                          type="text" 
+                          value={connectionInfo.fingerprint} 
+                          readOnly 
+                          className="input input-bordered input-sm flex-1 text-xs font-mono"
+                        />
+                        <button 
+                          className="btn btn-outline btn-sm px-2"
+                          onClick={() => copyToClipboard(connectionInfo.fingerprint || '')}
+                        >
+                          {t('connection.copy', 'Copy')}
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,98 @@
+/**
+ * Splits /allItems into subcollections for libraries above ALL_ITEMS_LIMIT
+ * Items are grouped by page, import month or first letter (see settings)
+ */
+
+import { ALL_ITEMS_LIMIT, countLibraryItems, getLibraryItemsByImport } from './eagleUtils';
+import { getAllItemsGrouping, getAllItemsPageSize } from './settings';
+import { EagleWebDAVFile } from './types';
+
+/**
+ * A virtual subcollection of /allItems
+ */
+export interface AllItemsShard {
+  name: string;
+  items: EagleWebDAVFile[];
+}
+
+/**
+ * Gets the import month bucket of a file
+ * @param file Eagle WebDAV file
+ * @returns 'YYYY-MM', or 'unknown' without an import date
+ */
+function getMonthKey(file: EagleWebDAVFile): string {
+  if (!file.importedAt) {
+    return 'unknown';
+  }
+  const date = new Date(file.importedAt);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Gets the first letter bucket of a file
+ * @param file Eagle WebDAV file
+ * @returns Uppercase first letter, '0-9' for digits or 'other' for anything else (no reserved URL characters)
+ */
+function getLetterKey(file: EagleWebDAVFile): string {
+  const first = (file.name || '').trim().charAt(0);
+  if (/\d/.test(first)) {
+    return '0-9';
+  }
+  return /\p{L}/u.test(first) ? first.toUpperCase() : 'other';
+}
+
+/**
+ * Gets the /allItems subcollections for a large library
+ * @returns Subcollections in display order, or null if the library is small enough to list flat
+ */
+export async function getAllItemsShards(): Promise<AllItemsShard[] | null> {
+  const total = await countLibraryItems();
+  if (total <= ALL_ITEMS_LIMIT) {
+    return null;
+  }
+
+  const grouping = getAllItemsGrouping();
+  const items = await getLibraryItemsByImport();
+  console.log(`[DEBUG] Splitting ${items.length} items in /allItems by ${grouping}`);
+
+  if (grouping === 'page') {
+    const pageSize = getAllItemsPageSize();
+    const pageCount = Math.ceil(items.length / pageSize);
+    const digits = Math.max(3, String(pageCount).length);
+    const shards: AllItemsShard[] = [];
+    for (let page = 0; page < pageCount; page++) {
+      shards.push({
+        name: `page-${String(page + 1).padStart(digits, '0')}`,
+        items: items.slice(page * pageSize, (page + 1) * pageSize)
+      });
+    }
+    return shards;
+  }
+
+  const getKey = grouping === 'month' ? getMonthKey : getLetterKey;
+  const groups = new Map<string, EagleWebDAVFile[]>();
+  for (const item of items) {
+    const key = getKey(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+
+  return Array.from(groups.keys())
+    .sort()
+    .map(name => ({ name, items: groups.get(name) || [] }));
+}
+
+/**
+ * Gets the files of one /allItems subcollection
+ * @param name Subcollection name (e.g. 'page-001', '2024-03' or 'A')
+ * @returns Files, or null if the library is not split or the subcollection does not exist
+ */
+export async function getAllItemsShard(name: string): Promise<EagleWebDAVFile[] | null> {
+  const shards = await getAllItemsShards();
+  const shard = shards?.find(candidate => candidate.name === name);
+  return shard ? shard.items : null;
+}
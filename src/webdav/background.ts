@@ -1,9 +1,12 @@
+import { invalidateLibraryIndex } from "./libraryIndex";
 import { EagleWebDAVServer } from "./server";
 
 export interface ServiceStatus {
   running: boolean;
   port: number;
   host: string;
+  httpsPort?: number;   // Set while the HTTPS listener is running
+  fingerprint?: string; // SHA-256 fingerprint of the HTTPS certificate
   startTime?: Date;
   error?: string;
 }
@@ -43,6 +46,12 @@ export class BackgroundService {
         }
       });
 
+      // Cached library contents belong to the previous library
+      eagle.event.onLibraryChanged((libraryPath) => {
+        console.log(`[DEBUG] Library changed to ${libraryPath} - dropping library index`);
+        invalidateLibraryIndex();
+      });
+
       eagle.event.onPluginBeforeExit(() => {
         eagle.log.info("Eagle WebDAV Plugin shutting down");
         this.stop();
@@ -132,6 +141,8 @@ export class BackgroundService {
       running: serverInfo.isRunning,
       port: serverInfo.config.port,
       host: serverInfo.config.host,
+      httpsPort: serverInfo.https?.port,
+      fingerprint: serverInfo.https?.fingerprint || undefined,
       startTime: this.startTime || undefined,
     };
   }
@@ -141,6 +152,9 @@ export class BackgroundService {
 
   async getServerUrl(): Promise<string> {
     const status = this.getStatus();
+    if (status.httpsPort) {
+      return `https://${status.host}:${status.httpsPort}`;
+    }
     return `http://${status.host}:${status.port}`;
   }
 
@@ -148,6 +162,7 @@ export class BackgroundService {
     url: string;
     username: string;
     password: string;
+    fingerprint?: string;
   }> {
     try {
       console.log('[DEBUG] getConnectionInfo() called');
@@ -168,6 +183,7 @@ export class BackgroundService {
         url,
         username: hostname, // Use hostname as username
         password: serverInfo.password || serverInfo.config?.password || 'no-password-found',
+        fingerprint: serverInfo.https?.fingerprint || undefined,
       };
       console.log('[DEBUG] Final connection info result:', result);
       return result;
@@ -0,0 +1,235 @@
+/**
+ * TLS certificates for the HTTPS listener
+ * Uses the PEM files configured by the user, or a self-signed certificate that
+ * is generated on first use and kept in localStorage. Eagle runs on Windows and
+ * macOS without a guaranteed openssl binary, so the certificate is encoded and
+ * signed here with Node's crypto module.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import { getCustomCertificatePaths } from './settings';
+
+const CERTIFICATE_STORAGE_KEY = 'eagle-webdav-https-certificate';
+
+/**
+ * Validity of generated certificates in days (the maximum Apple clients accept)
+ */
+const CERTIFICATE_VALIDITY_DAYS = 825;
+
+/**
+ * Certificate and private key used by the HTTPS listener
+ */
+export interface TLSCredentials {
+  cert: string;
+  key: string;
+  fingerprint: string; // SHA-256 fingerprint, colon-separated hex
+  selfSigned: boolean;
+}
+
+/**
+ * Encodes a DER length
+ * @param length Content length in bytes
+ * @returns Length octets
+ */
+function derLength(length: number): Buffer {
+  if (length < 0x80) {
+    return Buffer.from([length]);
+  }
+  const bytes: number[] = [];
+  for (let value = length; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value & 0xff);
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+/**
+ * Encodes a DER element
+ * @param tag Tag byte
+ * @param content Encoded content
+ * @returns Tag, length and content
+ */
+function der(tag: number, ...content: Buffer[]): Buffer {
+  const body = Buffer.concat(content);
+  return Buffer.concat([Buffer.from([tag]), derLength(body.length), body]);
+}
+
+/**
+ * Encodes an object identifier
+ * @param oid Dotted identifier such as '2.5.4.3'
+ * @returns DER OBJECT IDENTIFIER
+ */
+function derOID(oid: string): Buffer {
+  const [first, second, ...rest] = oid.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const value of rest) {
+    const encoded = [value & 0x7f];
+    for (let remaining = Math.floor(value / 128); remaining > 0; remaining = Math.floor(remaining / 128)) {
+      encoded.unshift((remaining & 0x7f) | 0x80);
+    }
+    bytes.push(...encoded);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+/**
+ * Encodes a UTCTime (dates before 2050) or GeneralizedTime
+ * @param date Date to encode
+ * @returns DER time
+ */
+function derTime(date: Date): Buffer {
+  const iso = date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z'; // YYYYMMDDHHMMSSZ
+  return date.getUTCFullYear() < 2050
+    ? der(0x17, Buffer.from(iso.slice(2)))
+    : der(0x18, Buffer.from(iso));
+}
+
+/**
+ * Encodes a distinguished name with a single common name
+ * @param commonName Common name
+ * @returns DER Name
+ */
+function derName(commonName: string): Buffer {
+  return der(0x30, der(0x31, der(0x30, derOID('2.5.4.3'), der(0x0c, Buffer.from(commonName, 'utf8')))));
+}
+
+/**
+ * Encodes a certificate extension
+ * @param oid Extension identifier
+ * @param critical Whether clients must understand the extension
+ * @param value DER-encoded extension value
+ * @returns DER Extension
+ */
+function derExtension(oid: string, critical: boolean, value: Buffer): Buffer {
+  return der(0x30, derOID(oid), ...(critical ? [der(0x01, Buffer.from([0xff]))] : []), der(0x04, value));
+}
+
+/**
+ * Encodes the subjectAltName extension value
+ * @param dnsNames Host names
+ * @param ipAddresses IPv4 addresses
+ * @returns DER GeneralNames
+ */
+function derSubjectAltNames(dnsNames: string[], ipAddresses: string[]): Buffer {
+  const names = [
+    ...dnsNames.map(name => der(0x82, Buffer.from(name, 'ascii'))),
+    ...ipAddresses.map(address => der(0x87, Buffer.from(address.split('.').map(Number))))
+  ];
+  return der(0x30, ...names);
+}
+
+/**
+ * Gets the names the server can be reached under on this machine
+ * @returns Host names and IPv4 addresses for the subjectAltName extension
+ */
+function getServerNames(): { dnsNames: string[]; ipAddresses: string[] } {
+  const hostname = typeof eagle !== 'undefined' && eagle.os ? eagle.os.hostname() : os.hostname();
+  const dnsNames = Array.from(new Set(['localhost', hostname, `${hostname}.local`].filter(name => /^[A-Za-z0-9.-]+$/.test(name))));
+
+  const ipAddresses = ['127.0.0.1'];
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const address of addresses || []) {
+      if (address.family === 'IPv4' && !address.internal && !ipAddresses.includes(address.address)) {
+        ipAddresses.push(address.address);
+      }
+    }
+  }
+  return { dnsNames, ipAddresses };
+}
+
+/**
+ * Generates a self-signed RSA certificate for the server
+ * @returns PEM certificate and PKCS#8 private key
+ */
+function generateSelfSignedCertificate(): { cert: string; key: string } {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const { dnsNames, ipAddresses } = getServerNames();
+  const name = derName('Eagle WebDAV');
+  const signatureAlgorithm = der(0x30, derOID('1.2.840.113549.1.1.11'), der(0x05)); // sha256WithRSAEncryption
+
+  const serial = crypto.randomBytes(16);
+  serial[0] &= 0x7f; // Serial numbers must be positive
+  const notBefore = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  const notAfter = new Date(Date.now() + CERTIFICATE_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+
+  const extensions = [
+    derExtension('2.5.29.19', true, der(0x30)), // basicConstraints: not a CA
+    derExtension('2.5.29.15', true, der(0x03, Buffer.from([0x05, 0xa0]))), // keyUsage: digitalSignature, keyEncipherment
+    derExtension('2.5.29.37', false, der(0x30, derOID('1.3.6.1.5.5.7.3.1'))), // extKeyUsage: serverAuth
+    derExtension('2.5.29.17', false, derSubjectAltNames(dnsNames, ipAddresses))
+  ];
+
+  const tbsCertificate = der(0x30,
+    der(0xa0, der(0x02, Buffer.from([0x02]))), // Version 3
+    der(0x02, serial),
+    signatureAlgorithm,
+    name,
+    der(0x30, derTime(notBefore), derTime(notAfter)),
+    name,
+    publicKey.export({ type: 'spki', format: 'der' }),
+    der(0xa3, der(0x30, ...extensions))
+  );
+  const signature = crypto.sign('sha256', tbsCertificate, privateKey);
+  const certificate = der(0x30, tbsCertificate, signatureAlgorithm, der(0x03, Buffer.from([0x00]), signature));
+
+  const base64 = certificate.toString('base64').match(/.{1,64}/g)!.join('\n');
+  return {
+    cert: `-----BEGIN CERTIFICATE-----\n${base64}\n-----END CERTIFICATE-----\n`,
+    key: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+  };
+}
+
+/**
+ * Gets the stored self-signed certificate, generating and storing one on first use
+ * Certificates that no longer parse or have expired are replaced
+ * @returns PEM certificate and private key
+ */
+function getSelfSignedCertificate(): { cert: string; key: string } {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CERTIFICATE_STORAGE_KEY) || 'null');
+    if (stored && typeof stored.cert === 'string' && typeof stored.key === 'string') {
+      const validTo = new Date(new crypto.X509Certificate(stored.cert).validTo);
+      if (validTo.getTime() > Date.now()) {
+        return stored;
+      }
+    }
+  } catch (error) {
+    console.error('[DEBUG] Stored HTTPS certificate is invalid, generating a new one:', error);
+  }
+
+  console.log('[DEBUG] Generating self-signed HTTPS certificate');
+  const generated = generateSelfSignedCertificate();
+  try {
+    localStorage.setItem(CERTIFICATE_STORAGE_KEY, JSON.stringify(generated));
+  } catch (error) {
+    console.error('[DEBUG] Failed to persist HTTPS certificate:', error);
+  }
+  return generated;
+}
+
+/**
+ * Loads the certificate and key for the HTTPS listener
+ * User-provided PEM files take precedence over the self-signed certificate
+ * @returns TLS credentials, or null if the configured files cannot be used
+ */
+export function loadTLSCredentials(): TLSCredentials | null {
+  const customPaths = getCustomCertificatePaths();
+
+  try {
+    const { cert, key } = customPaths
+      ? { cert: fs.readFileSync(customPaths.certPath, 'utf8'), key: fs.readFileSync(customPaths.keyPath, 'utf8') }
+      : getSelfSignedCertificate();
+
+    const certificate = new crypto.X509Certificate(cert);
+    if (!certificate.checkPrivateKey(crypto.createPrivateKey(key))) {
+      console.error('[DEBUG] HTTPS certificate does not match its private key');
+      return null;
+    }
+
+    return { cert, key, fingerprint: certificate.fingerprint256, selfSigned: !customPaths };
+  } catch (error) {
+    console.error('[DEBUG] Failed to load HTTPS certificate:', error);
+    return null;
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Color index for the /colors route
+ * Buckets items by their dominant palette color into hue families or a coarse
+ * HEX grid, and matches palettes against '#rrggbb~tolerance' queries
+ */
+
+import { getLibraryItems } from './eagleUtils';
+import { EaglePalette, EagleWebDAVFile } from './types';
+
+/**
+ * A hue family or grid cell below /colors with its number of items
+ */
+export interface ColorBucket {
+  name: string;
+  count: number;
+}
+
+/**
+ * Named hue families in display order
+ */
+const HUE_FAMILIES = ['red', 'orange', 'yellow', 'green', 'cyan', 'blue', 'purple', 'pink', 'brown', 'black', 'gray', 'white'];
+
+/**
+ * Collection under /colors holding the coarse HEX grid
+ */
+const GRID_COLLECTION = 'grid';
+
+/**
+ * Channel levels of the coarse HEX grid (4 levels per channel, 64 cells)
+ */
+const GRID_LEVELS = [0x00, 0x55, 0xaa, 0xff];
+
+/**
+ * Tolerance used when a color query does not give one
+ */
+const DEFAULT_TOLERANCE = 30;
+
+type RGB = [number, number, number];
+
+/**
+ * Gets the RGB color of a palette entry
+ * @param palette Eagle palette entry ({ color: [r, g, b], ratio })
+ * @returns RGB triple, or null if the entry has no color
+ */
+function getPaletteColor(palette: EaglePalette | undefined): RGB | null {
+  const color = palette?.color;
+  if (!Array.isArray(color) || color.length < 3) {
+    return null;
+  }
+  return [color[0], color[1], color[2]].map(channel => Math.max(0, Math.min(255, Math.round(channel)))) as RGB;
+}
+
+/**
+ * Gets the dominant color of a file (the palette entry with the largest ratio)
+ * @param file Eagle WebDAV file
+ * @returns RGB triple, or null if the item has no palette
+ */
+function getDominantColor(file: EagleWebDAVFile): RGB | null {
+  const palettes = (file.palettes || []).filter(palette => getPaletteColor(palette));
+  if (palettes.length === 0) {
+    return null;
+  }
+  const dominant = palettes.reduce((best, palette) => ((palette.ratio || 0) > (best.ratio || 0) ? palette : best));
+  return getPaletteColor(dominant);
+}
+
+/**
+ * Classifies a color into a named hue family
+ * @param rgb RGB triple
+ * @returns Hue family name
+ */
+function getHueFamily([r, g, b]: RGB): string {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  const saturation = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
+
+  if (lightness < 0.12) return 'black';
+  if (lightness > 0.92) return 'white';
+  if (saturation < 0.15) return 'gray';
+
+  let hue: number;
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  if (max === rn) {
+    hue = 60 * (((gn - bn) / delta) % 6);
+  } else if (max === gn) {
+    hue = 60 * ((bn - rn) / delta + 2);
+  } else {
+    hue = 60 * ((rn - gn) / delta + 4);
+  }
+  if (hue < 0) hue += 360;
+
+  // Dark oranges and reds read as brown
+  if (hue >= 15 && hue < 45 && lightness < 0.4) return 'brown';
+  if (hue < 15 || hue >= 345) return 'red';
+  if (hue < 45) return 'orange';
+  if (hue < 70) return 'yellow';
+  if (hue < 165) return 'green';
+  if (hue < 195) return 'cyan';
+  if (hue < 255) return 'blue';
+  if (hue < 290) return 'purple';
+  return 'pink';
+}
+
+/**
+ * Formats an RGB triple as lowercase hex without '#'
+ * @param rgb RGB triple
+ * @returns Hex string such as 'ff8800'
+ */
+function toHex(rgb: RGB): string {
+  return rgb.map(channel => channel.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Snaps a color to the nearest cell of the coarse HEX grid
+ * @param rgb RGB triple
+ * @returns Grid cell name such as '55aaff'
+ */
+function getGridCell(rgb: RGB): string {
+  const snapped = rgb.map(channel => GRID_LEVELS.reduce((best, level) =>
+    (Math.abs(level - channel) < Math.abs(best - channel) ? level : best))) as RGB;
+  return toHex(snapped);
+}
+
+/**
+ * Parses a color query such as '#ff8800~20', 'ff8800' or '#f80~10'
+ * The tolerance is the maximum RGB distance (0-441) of a matching palette color
+ * @param query Path segment below /colors
+ * @returns Target color and tolerance, or null if the segment is not a color query
+ */
+function parseColorQuery(query: string): { rgb: RGB; tolerance: number } | null {
+  const match = /^#?([0-9a-f]{6}|[0-9a-f]{3})(?:~(\d{1,3}))?$/i.exec(query.trim());
+  if (!match) {
+    return null;
+  }
+
+  const hex = match[1].length === 3 ? match[1].split('').map(char => char + char).join('') : match[1];
+  const rgb = [0, 2, 4].map(offset => parseInt(hex.substring(offset, offset + 2), 16)) as RGB;
+  return { rgb, tolerance: match[2] !== undefined ? parseInt(match[2], 10) : DEFAULT_TOLERANCE };
+}
+
+/**
+ * Computes the Euclidean distance between two colors
+ * @param a First RGB triple
+ * @param b Second RGB triple
+ * @returns Distance in RGB space
+ */
+function colorDistance(a: RGB, b: RGB): number {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+}
+
+/**
+ * Counts items per key, dropping items without a key
+ * @param items Library files
+ * @param getKey Bucket key of a file
+ * @returns Item counts per key
+ */
+function countBy(items: EagleWebDAVFile[], getKey: (file: EagleWebDAVFile) => string | null): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const key = getKey(item);
+    if (key) {
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Lists the subcollections of a /colors level with their item counts
+ * - []: hue families with items, plus the grid collection
+ * - ['grid']: grid cells with items
+ * @param segments Segments below /colors
+ * @returns Buckets, or null if the path is not a listing level
+ */
+export async function getColorBuckets(segments: string[]): Promise<ColorBucket[] | null> {
+  if (segments.length === 0) {
+    const items = await getLibraryItems();
+    const counts = countBy(items, file => {
+      const rgb = getDominantColor(file);
+      return rgb ? getHueFamily(rgb) : null;
+    });
+    const families = HUE_FAMILIES
+      .filter(name => counts.has(name))
+      .map(name => ({ name, count: counts.get(name) || 0 }));
+    const withPalette = Array.from(counts.values()).reduce((total, count) => total + count, 0);
+    return [...families, { name: GRID_COLLECTION, count: withPalette }];
+  }
+
+  if (segments.length === 1 && segments[0] === GRID_COLLECTION) {
+    const counts = countBy(await getLibraryItems(), file => {
+      const rgb = getDominantColor(file);
+      return rgb ? getGridCell(rgb) : null;
+    });
+    return Array.from(counts.keys()).sort().map(name => ({ name, count: counts.get(name) || 0 }));
+  }
+
+  return null;
+}
+
+/**
+ * Gets the items of a color collection
+ * - ['<family>']: items whose dominant color is in that hue family
+ * - ['grid', '<rrggbb>']: items whose dominant color snaps to that grid cell
+ * - ['#rrggbb~tolerance']: items with any palette color within the tolerance
+ * @param segments Segments below /colors
+ * @returns Matching files (possibly empty), or null if the path is not a color collection
+ */
+export async function getColorItems(segments: string[]): Promise<EagleWebDAVFile[] | null> {
+  if (segments.length === 1 && HUE_FAMILIES.includes(segments[0].toLowerCase())) {
+    const family = segments[0].toLowerCase();
+    return (await getLibraryItems()).filter(file => {
+      const rgb = getDominantColor(file);
+      return rgb !== null && getHueFamily(rgb) === family;
+    });
+  }
+
+  if (segments.length === 2 && segments[0] === GRID_COLLECTION && /^[0-9a-f]{6}$/i.test(segments[1])) {
+    const cell = segments[1].toLowerCase();
+    return (await getLibraryItems()).filter(file => {
+      const rgb = getDominantColor(file);
+      return rgb !== null && getGridCell(rgb) === cell;
+    });
+  }
+
+  const query = segments.length === 1 ? parseColorQuery(segments[0]) : null;
+  if (!query) {
+    return null;
+  }
+
+  console.log(`[DEBUG] Color query #${toHex(query.rgb)} within ${query.tolerance}`);
+  return (await getLibraryItems()).filter(file => (file.palettes || []).some(palette => {
+    const rgb = getPaletteColor(palette);
+    return rgb !== null && colorDistance(rgb, query.rgb) <= query.tolerance;
+  }));
+}
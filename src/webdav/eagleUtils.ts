@@ -3,7 +3,10 @@
  * Handles all interactions with Eagle's folder and item APIs
  */
 
-import { EagleWebDAVFile, EagleWebDAVFolder } from './types';
+import fs from 'fs';
+import { EagleItemFilter, EagleWebDAVFile, EagleWebDAVFolder } from './types';
+import { generateETag } from './httpUtils';
+import { getItemsByImport, getLibraryIndex, LibraryIndex, LibrarySnapshot, removeIndexedItem, replaceIndexedFolders, updateIndexedItem } from './libraryIndex';
 
 /**
  * Gets the MIME type for a file extension
@@ -21,12 +24,24 @@ export function getMimeType(ext?: string): string {
     'bmp': 'image/bmp',
     'webp': 'image/webp',
     'svg': 'image/svg+xml',
+    'tif': 'image/tiff',
+    'tiff': 'image/tiff',
+    'heic': 'image/heic',
+    'avif': 'image/avif',
+    'ico': 'image/x-icon',
+    'psd': 'image/vnd.adobe.photoshop',
     'mp4': 'video/mp4',
+    'm4v': 'video/x-m4v',
+    'webm': 'video/webm',
     'avi': 'video/x-msvideo',
     'mov': 'video/quicktime',
     'mkv': 'video/x-matroska',
     'mp3': 'audio/mpeg',
     'wav': 'audio/wav',
+    'flac': 'audio/flac',
+    'aac': 'audio/aac',
+    'm4a': 'audio/mp4',
+    'ogg': 'audio/ogg',
     'pdf': 'application/pdf',
     'txt': 'text/plain',
     'html': 'text/html',
@@ -42,9 +57,131 @@ export function getMimeType(ext?: string): string {
   return mimeTypes[ext.toLowerCase()] || 'application/octet-stream';
 }
 
+/**
+ * Reads modification time and size of a library file
+ * @param filePath Absolute file path
+ * @returns File stats or null if the file cannot be read
+ */
+function getFileStats(filePath: string): { mtimeMs: number; size: number } | null {
+  try {
+    return filePath ? fs.statSync(filePath) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Converts an Eagle item to the WebDAV file format, including its metadata
+ * The modification time comes from the library file so replacing its content
+ * changes both Last-Modified and the ETag. The file is only statted when one
+ * of them is first read, so building the index never touches the disk
+ * @param item Eagle item
+ * @returns Eagle WebDAV file
+ */
+export function toWebDAVFile(item: Item): EagleWebDAVFile {
+  let stats: { mtimeMs: number; size: number } | null | undefined;
+  const getStats = () => {
+    if (stats === undefined) {
+      stats = getFileStats(item.filePath);
+    }
+    return stats;
+  };
+  
+  return {
+    id: item.id,
+    name: item.name,
+    size: item.size || 0, // Ensure size is always present
+    mimeType: getMimeType(item.ext),
+    path: item.filePath,
+    get lastModified() {
+      const fileStats = getStats();
+      return new Date(fileStats ? fileStats.mtimeMs : item.importedAt);
+    },
+    importedAt: item.importedAt,
+    get etag() {
+      const fileStats = getStats();
+      return generateETag(item.id, fileStats ? fileStats.mtimeMs : item.importedAt || 0, fileStats ? fileStats.size : item.size || 0);
+    },
+    ext: item.ext,
+    tags: item.tags || [],
+    folders: item.folders || [],
+    annotation: item.annotation || '',
+    star: item.star || 0,
+    url: item.url || '',
+    width: item.width,
+    height: item.height,
+    palettes: item.palettes || [],
+    thumbnailPath: item.thumbnailPath || undefined
+  };
+}
+
+/**
+ * Converts a WebDAV file into the virtual file serving its Eagle thumbnail
+ * The thumbnail keeps the original filename; when its format differs, the
+ * thumbnail extension is appended (e.g. 'poster.tif' -> 'poster.tif.png')
+ * @param file Eagle WebDAV file
+ * @returns Thumbnail file, or null if the item has no thumbnail on disk
+ */
+export function toThumbnailFile(file: EagleWebDAVFile): EagleWebDAVFile | null {
+  if (!file.thumbnailPath) return null;
+  
+  const stats = getFileStats(file.thumbnailPath);
+  if (!stats) return null;
+  
+  const thumbnailExt = (file.thumbnailPath.split('.').pop() || '').toLowerCase();
+  const sameFormat = (file.ext || '').toLowerCase() === thumbnailExt;
+  
+  return {
+    ...file,
+    name: sameFormat || !file.ext ? file.name : `${file.name}.${file.ext}`,
+    ext: thumbnailExt,
+    size: stats.size,
+    mimeType: getMimeType(thumbnailExt),
+    path: file.thumbnailPath,
+    lastModified: new Date(stats.mtimeMs),
+    etag: generateETag(`${file.id}-thumbnail`, stats.mtimeMs, stats.size)
+  };
+}
+
+/**
+ * Loads items, folders and tags from Eagle for the library index
+ * @returns Library contents
+ */
+async function loadLibrarySnapshot(): Promise<LibrarySnapshot> {
+  console.log('[DEBUG] Loading Eagle library into the index');
+  const [items, folders, tags] = await Promise.all([
+    eagle.item.getAll(),
+    eagle.folder.getAll(),
+    eagle.tag.get()
+  ]);
+
+  return {
+    items: Array.isArray(items) ? items.map(toWebDAVFile) : [],
+    folders: Array.isArray(folders) ? folders : [],
+    tags: Array.isArray(tags) ? tags : []
+  };
+}
+
+/**
+ * Reads the modification time of the current library
+ * Eagle updates it whenever items, folders or tags are edited
+ * @returns Modification time, or undefined if Eagle does not report one
+ */
+function getLibraryModificationTime(): number | undefined {
+  return eagle.library ? eagle.library.modificationTime : undefined;
+}
+
+/**
+ * Gets the library index, loading it from Eagle when needed
+ * @returns Library index
+ */
+function getIndex(): Promise<LibraryIndex> {
+  return getLibraryIndex(loadLibrarySnapshot, getLibraryModificationTime);
+}
+
 /**
  * Gets the main containers for the root level
- * @returns Array of main WebDAV containers (allItems, folders, index, tags)
+ * @returns Array of main WebDAV containers (allItems, folders, index, tags, thumbnails, smart, search, timeline, types, colors, ratings, tagGroups)
  */
 export async function getRootContainer(): Promise<EagleWebDAVFolder[]> {
   return [
@@ -75,6 +212,62 @@ export async function getRootContainer(): Promise<EagleWebDAVFolder[]> {
       path: '/tags', 
       lastModified: new Date(),
       children: []
+    },
+    {
+      id: 'thumbnails',
+      name: 'thumbnails',
+      path: '/thumbnails',
+      lastModified: new Date(),
+      children: []
+    },
+    {
+      id: 'smart',
+      name: 'smart',
+      path: '/smart',
+      lastModified: new Date(),
+      children: []
+    },
+    {
+      id: 'search',
+      name: 'search',
+      path: '/search',
+      lastModified: new Date(),
+      children: []
+    },
+    {
+      id: 'timeline',
+      name: 'timeline',
+      path: '/timeline',
+      lastModified: new Date(),
+      children: []
+    },
+    {
+      id: 'types',
+      name: 'types',
+      path: '/types',
+      lastModified: new Date(),
+      children: []
+    },
+    {
+      id: 'colors',
+      name: 'colors',
+      path: '/colors',
+      lastModified: new Date(),
+      children: []
+    },
+    {
+      id: 'ratings',
+      name: 'ratings',
+      path: '/ratings',
+      lastModified: new Date(),
+      children: []
+    },
+    {
+      id: 'tagGroups',
+      name: 'tagGroups',
+      path: '/tagGroups',
+      lastModified: new Date(),
+      children: []
     }
   ];
 }
@@ -89,27 +282,8 @@ export async function getAllEagleFolders(): Promise<EagleWebDAVFolder[]> {
   }
   
   try {
-    const folders = await eagle.folder.getAll();
-                    
-    if (!folders || !Array.isArray(folders)) {
-      console.warn('[DEBUG] No folders returned from Eagle API or not an array');
-      return [];
-    }
-    
-    // Flatten all folders (including nested ones) into a single array
-    const allFolders: any[] = [];
-    
-    function collectAllFolders(folderList: any[]) {
-      for (const folder of folderList) {
-        allFolders.push(folder);
-        // If this folder has children, recursively collect them too
-        if (folder.children && Array.isArray(folder.children)) {
-          collectAllFolders(folder.children);
-        }
-      }
-    }
-    
-    collectAllFolders(folders);
+    // The index lists every folder (including nested ones) in tree order
+    const allFolders = Array.from((await getIndex()).foldersById.values());
     console.log(`[DEBUG] Collected ${allFolders.length} total folders (including nested)`);
     
     const result = allFolders.map((folder) => {
@@ -128,6 +302,17 @@ export async function getAllEagleFolders(): Promise<EagleWebDAVFolder[]> {
   }
 }
 
+/**
+ * Finds the raw Eagle folder with a given name anywhere in the folder tree
+ * @param name The folder name
+ * @returns Raw Eagle folder or null if not found
+ */
+export async function findEagleFolderByName(name: string): Promise<Folder | null> {
+  if (typeof eagle === 'undefined') return null;
+  
+  return (await getIndex()).foldersByName.get(name) || null;
+}
+
 /**
  * Gets a folder by its name from the Eagle API
  * @param name The folder name
@@ -138,31 +323,7 @@ export async function getFolderByName(name: string): Promise<EagleWebDAVFolder |
     if (typeof eagle === 'undefined') return null;
     
     console.log(`[DEBUG] Getting folder by name: ${name}`);
-    // Get all folders and find the one with matching name
-    const allFolders = await eagle.folder.getAll();
-    if (!allFolders || !Array.isArray(allFolders)) {
-      console.warn('[DEBUG] No folders returned from Eagle API');
-      return null;
-    }
-    
-    // Search through ALL folders (including nested ones) to find the name
-    let foundFolder: any = null;
-    
-    function searchForFolder(folderList: any[]): any {
-      for (const folder of folderList) {
-        if (folder.name === name) {
-          return folder;
-        }
-        // Search in children too
-        if (folder.children && Array.isArray(folder.children)) {
-          const found = searchForFolder(folder.children);
-          if (found) return found;
-        }
-      }
-      return null;
-    }
-    
-    foundFolder = searchForFolder(allFolders);
+    const foundFolder = await findEagleFolderByName(name);
         
     if (!foundFolder) {
       console.log(`[DEBUG] No folder found with name: ${name}`);
@@ -187,50 +348,13 @@ export async function getFolderById(id: string, includeSubfolders: boolean = fal
     if (typeof eagle === 'undefined') return null;
     
     console.log(`[DEBUG] Getting folder by ID: ${id}`);
-    const folder = await eagle.folder.getById(id);
-        if (!folder) return null;
-
-    const children: (EagleWebDAVFile | EagleWebDAVFolder)[] = [];
+    const index = await getIndex();
+    const folder = index.foldersById.get(id);
+    if (!folder) return null;
 
     // For flat structure, don't add subfolders - only show files in this folder
     // This prevents circular references and maintains the flat navigation we want
-    
-    // Get items in this folder - using the correct API call
-    console.log(`[DEBUG] Getting items for folder: ${id}`);
-    
-    // Test: Try to get all items first to see if there are any items at all
-    try {
-      const allItems = await eagle.item.get({});
-      console.log(`[DEBUG] Total items in Eagle library: ${allItems ? allItems.length : 0}`);
-      if (allItems && allItems.length > 0) {
-        console.log(`[DEBUG] Sample item:`, allItems[0]);
-      }
-    } catch (e) {
-      console.log(`[DEBUG] Error getting all items:`, e);
-    }
-    
-    // Get items in this specific folder
-    console.log(`[DEBUG] Trying eagle.item.get({ folders: ["${id}"] })`);
-    const items = await eagle.item.get({ folders: [id] });
-        
-    // Add files
-    if (items && Array.isArray(items)) {
-      console.log(`[DEBUG] Adding ${items.length} items to folder`);
-      for (const item of items) {
-        // Ensure the item is treated as a file by explicitly not including children property
-        const fileItem = {
-          id: item.id,
-          name: item.name,
-          size: item.size || 0, // Ensure size is always present
-          mimeType: getMimeType(item.ext),
-          path: item.filePath,
-          lastModified: new Date(item.importedAt),
-          ext: item.ext
-          // Explicitly NOT including children property to ensure it's treated as a file
-        };
-        children.push(fileItem);
-      }
-    }
+    const children: (EagleWebDAVFile | EagleWebDAVFolder)[] = [...(index.itemsByFolder.get(id) || [])];
 
     // Add subfolders if requested
     if (includeSubfolders) {
@@ -279,29 +403,85 @@ export async function getFileById(id: string): Promise<EagleWebDAVFile | null> {
   try {
     if (typeof eagle === 'undefined') return null;
     
+    const indexed = (await getIndex()).itemsById.get(id);
+    if (indexed) return indexed;
+
+    // Items added since the index was built are looked up directly
     const item = await eagle.item.getById(id);
     if (!item) return null;
 
-    return {
-      id: item.id,
-      name: item.name,
-      size: item.size,
-      mimeType: getMimeType(item.ext),
-      path: item.filePath,
-      lastModified: new Date(item.importedAt),
-      ext: item.ext // Add extension property for easy access
-    };
+    const file = toWebDAVFile(item);
+    updateIndexedItem(file);
+    return file;
   } catch (error) {
     console.error(`Failed to get file ${id}:`, error);
     return null;
   }
 }
 
+/**
+ * Library size above which /allItems is split into subcollections instead of listed flat
+ */
+export const ALL_ITEMS_LIMIT = 5000;
+
+/**
+ * Gets the number of items in the Eagle library
+ * @returns Item count (0 outside Eagle or on error)
+ */
+export async function countLibraryItems(): Promise<number> {
+  if (typeof eagle === 'undefined') {
+    return 0;
+  }
+
+  try {
+    return (await getIndex()).items.length;
+  } catch (error) {
+    console.error(`[DEBUG] Failed to count Eagle items:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Gets every item in the Eagle library regardless of its size
+ * Callers are expected to split the result (see allItemsShards)
+ * @returns Array of Eagle WebDAV files
+ */
+export async function getLibraryItems(): Promise<EagleWebDAVFile[]> {
+  if (typeof eagle === 'undefined') {
+    return [];
+  }
+
+  try {
+    return [...(await getIndex()).items];
+  } catch (error) {
+    eagle.log.error(`Failed to get Eagle library items: ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Gets every item in the Eagle library in import order (import date, then id)
+ * The order is cached with the library index, so page membership only changes
+ * when items are added or removed
+ * @returns Sorted Eagle WebDAV files (shared with the index, must not be modified)
+ */
+export async function getLibraryItemsByImport(): Promise<EagleWebDAVFile[]> {
+  if (typeof eagle === 'undefined') {
+    return [];
+  }
+
+  try {
+    return getItemsByImport(await getIndex());
+  } catch (error) {
+    eagle.log.error(`Failed to get Eagle library items: ${error}`);
+    return [];
+  }
+}
+
 /**
  * Gets all Eagle items with performance optimization
- * Uses eagle.item.countAll() to check if items > 5000, returns empty array if so
- * Otherwise uses eagle.item.getAll() and converts to WebDAV format
- * @returns Array of Eagle WebDAV files (empty if count > 5000)
+ * Returns an empty array if the library has more than ALL_ITEMS_LIMIT items
+ * @returns Array of Eagle WebDAV files (empty if count > ALL_ITEMS_LIMIT)
  */
 export async function getAllEagleItems(): Promise<EagleWebDAVFile[]> {
   if (typeof eagle === 'undefined') {
@@ -309,41 +489,17 @@ export async function getAllEagleItems(): Promise<EagleWebDAVFile[]> {
   }
   
   try {
-    // First check the total count for performance optimization
-    const totalCount = await eagle.item.countAll();
+    const items = (await getIndex()).items;
+    const totalCount = items.length;
     console.log(`[DEBUG] Total items in library: ${totalCount}`);
     
-    // If more than 5000 items, return empty folder for performance
-    if (totalCount > 5000) {
-      console.log(`[DEBUG] Too many items (${totalCount} > 5000), returning empty folder`);
+    // Large libraries are browsed through /allItems subcollections instead
+    if (totalCount > ALL_ITEMS_LIMIT) {
+      console.log(`[DEBUG] Too many items (${totalCount} > ${ALL_ITEMS_LIMIT}), returning empty folder`);
       return [];
     }
     
-    // Get all items since count is manageable
-    console.log(`[DEBUG] Getting all ${totalCount} items from Eagle`);
-    const items = await eagle.item.getAll();
-    
-    if (!items || !Array.isArray(items)) {
-      console.warn('[DEBUG] No items returned from Eagle API or not an array');
-      return [];
-    }
-    
-    // Convert Eagle items to WebDAV format
-    const webdavFiles: EagleWebDAVFile[] = [];
-    for (const item of items) {
-      webdavFiles.push({
-        id: item.id,
-        name: item.name,
-        size: item.size || 0,
-        mimeType: getMimeType(item.ext),
-        path: item.filePath,
-        lastModified: new Date(item.importedAt),
-        ext: item.ext
-      });
-    }
-    
-    console.log(`[DEBUG] Converted ${webdavFiles.length} items to WebDAV format`);
-    return webdavFiles;
+    return [...items];
   } catch (error) {
     if (typeof eagle !== 'undefined') {
       eagle.log.error(`Failed to get all Eagle items: ${error}`);
@@ -365,13 +521,7 @@ export async function getHierarchicalFolders(): Promise<EagleWebDAVFolder[]> {
   }
   
   try {
-    const folders = await eagle.folder.getAll();
-                    
-    if (!folders || !Array.isArray(folders)) {
-      console.warn('[DEBUG] No folders returned from Eagle API or not an array');
-      return [];
-    }
-    
+    const folders = (await getIndex()).folders;
     console.log(`[DEBUG] Got hierarchical folders structure with ${folders.length} root folders`);
     
     // Convert Eagle folders to WebDAV format while preserving hierarchy
@@ -442,6 +592,30 @@ function buildHierarchicalPath(folder: any, parentPath: string = ''): string {
   return currentPath;
 }
 
+/**
+ * Walks the Eagle folder tree to the raw folder at a hierarchical path
+ * @param path The hierarchical path (e.g., '/folder1/subfolder2')
+ * @returns Raw Eagle folder or null if any segment is missing
+ */
+export async function findEagleFolderByPath(path: string): Promise<Folder | null> {
+  if (typeof eagle === 'undefined') return null;
+  
+  // Normalize to '/segment1/segment2'
+  const pathSegments = path.split('/').filter(segment => segment);
+  
+  if (pathSegments.length === 0) {
+    return null;
+  }
+  
+  const targetFolder = (await getIndex()).foldersByPath.get('/' + pathSegments.join('/'));
+  if (!targetFolder) {
+    console.log(`[DEBUG] Folder path not found: ${path}`);
+    return null;
+  }
+  
+  return targetFolder;
+}
+
 /**
  * Gets a folder by its hierarchical path from the Eagle API
  * @param path The hierarchical path (e.g., '/folder1/subfolder2')
@@ -464,51 +638,8 @@ export async function getFolderByPath(path: string, includeSubfolders: boolean =
       };
     }
     
-    // Split path into segments
-    const pathSegments = path.split('/').filter(segment => segment);
-    
-    if (pathSegments.length === 0) {
-      return null;
-    }
-    
-    // Get all folders in hierarchical structure
-    const rootFolders = await eagle.folder.getAll();
-    if (!rootFolders || !Array.isArray(rootFolders)) {
-      return null;
-    }
-    
-    // Navigate through the hierarchy
-    let currentFolders = rootFolders;
-    let targetFolder: any = null;
-    
-    for (let i = 0; i < pathSegments.length; i++) {
-      const segmentName = pathSegments[i];
-      targetFolder = null;
-      
-      // Find folder with matching name at current level
-      for (const folder of currentFolders) {
-        if (folder.name === segmentName) {
-          targetFolder = folder;
-          break;
-        }
-      }
-      
-      if (!targetFolder) {
-        console.log(`[DEBUG] Folder segment not found: ${segmentName} at path level ${i}`);
-        return null;
-      }
-      
-      // If this is not the last segment, move to children for next iteration
-      if (i < pathSegments.length - 1) {
-        if (targetFolder.children && Array.isArray(targetFolder.children)) {
-          currentFolders = targetFolder.children;
-        } else {
-          console.log(`[DEBUG] No children found for folder: ${segmentName}`);
-          return null;
-        }
-      }
-    }
-    
+    // Walk the folder tree to the target folder
+    const targetFolder = await findEagleFolderByPath(path);
     if (!targetFolder) {
       return null;
     }
@@ -558,55 +689,13 @@ export async function getTagsWithItems(): Promise<{ id: string; name: string; it
   
   try {
     console.log('[DEBUG] Getting all tags for tags route');
+    const index = await getIndex();
     
-    // Get all tags from Eagle
-    const tags = await eagle.tag.get();
-    if (!tags || !Array.isArray(tags)) {
-      console.warn('[DEBUG] No tags returned from Eagle API or not an array');
-      return [];
-    }
-    
-    console.log(`[DEBUG] Found ${tags.length} tags in Eagle library`);
-    
-    const result: { id: string; name: string; items: EagleWebDAVFile[] }[] = [];
-    
-    // For each tag, get all items with that tag
-    for (const tag of tags) {
-      try {
-        console.log(`[DEBUG] Getting items for tag: ${tag.name}`);
-        
-        // Get all items that have this specific tag
-        const items = await eagle.item.get({ tags: [tag.name] });
-        
-        if (!items || !Array.isArray(items)) {
-          console.log(`[DEBUG] No items found for tag: ${tag.name}`);
-          continue;
-        }
-        
-        // Convert Eagle items to WebDAV format
-        const webdavFiles: EagleWebDAVFile[] = items.map(item => ({
-          id: item.id,
-          name: item.name,
-          size: item.size || 0,
-          mimeType: getMimeType(item.ext),
-          path: item.filePath,
-          lastModified: new Date(item.importedAt),
-          ext: item.ext
-        }));
-        
-        console.log(`[DEBUG] Tag "${tag.name}" has ${webdavFiles.length} items`);
-        
-        result.push({
-          id: tag.id,
-          name: tag.name,
-          items: webdavFiles
-        });
-      } catch (error) {
-        console.error(`[DEBUG] Error getting items for tag ${tag.name}:`, error);
-        // Continue with next tag
-        continue;
-      }
-    }
+    const result = index.tags.map(tag => ({
+      id: tag.id,
+      name: tag.name,
+      items: [...(index.itemsByTag.get(tag.name) || [])]
+    }));
     
     console.log(`[DEBUG] Processed ${result.length} tags with items`);
     return result;
@@ -628,30 +717,316 @@ export async function getItemsByTag(tagName: string): Promise<EagleWebDAVFile[]>
   
   try {
     console.log(`[DEBUG] Getting items for specific tag: ${tagName}`);
+    const webdavFiles = [...((await getIndex()).itemsByTag.get(tagName) || [])];
     
-    // Get all items that have this specific tag
-    const items = await eagle.item.get({ tags: [tagName] });
-    
+    console.log(`[DEBUG] Tag "${tagName}" has ${webdavFiles.length} items`);
+    return webdavFiles;
+  } catch (error) {
+    console.error(`[DEBUG] Error getting items for tag ${tagName}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Query options the library index can answer without asking Eagle
+ * Keyword, annotation and shape matching follow Eagle's own rules, so those
+ * queries (and multi-tag/multi-folder ones) still go to eagle.item.get
+ * @param filter Query options
+ * @returns True if the filter can be evaluated against the index
+ */
+function isIndexedFilter(filter: EagleItemFilter): boolean {
+  if (filter.keywords?.length || filter.annotation || filter.shape) {
+    return false;
+  }
+  return (filter.tags || []).length <= 1 && (filter.folders || []).length <= 1;
+}
+
+/**
+ * Checks an indexed file against query options accepted by isIndexedFilter
+ * @param file Eagle WebDAV file
+ * @param filter Query options
+ * @returns True if the file matches
+ */
+function matchesIndexedFilter(file: EagleWebDAVFile, filter: EagleItemFilter): boolean {
+  const tags = file.tags || [];
+  const folders = file.folders || [];
+
+  if (filter.ext && (file.ext || '').toLowerCase() !== filter.ext.toLowerCase()) return false;
+  if (filter.rating !== undefined && (file.star || 0) !== filter.rating) return false;
+  if (filter.isUntagged && tags.length > 0) return false;
+  if (filter.isUnfiled && folders.length > 0) return false;
+  if (filter.tags?.length && !tags.includes(filter.tags[0])) return false;
+  if (filter.folders?.length && !folders.includes(filter.folders[0])) return false;
+  return true;
+}
+
+/**
+ * Gets items matching an eagle.item.get query
+ * @param filter Query options (ext, rating, shape, isUntagged, ...)
+ * @returns Array of Eagle WebDAV files matching the query
+ */
+export async function getItemsByFilter(filter: EagleItemFilter): Promise<EagleWebDAVFile[]> {
+  if (typeof eagle === 'undefined') {
+    return [];
+  }
+
+  try {
+    console.log(`[DEBUG] Getting items for filter`);
+    if (isIndexedFilter(filter)) {
+      const matches = (await getIndex()).items.filter(file => matchesIndexedFilter(file, filter));
+      console.log(`[DEBUG] Filter matched ${matches.length} indexed items`);
+      return matches;
+    }
+
+    const items = await eagle.item.get(filter);
+
     if (!items || !Array.isArray(items)) {
-      console.log(`[DEBUG] No items found for tag: ${tagName}`);
       return [];
     }
+
+    const webdavFiles: EagleWebDAVFile[] = items.map(toWebDAVFile);
+    console.log(`[DEBUG] Filter matched ${webdavFiles.length} items`);
+    return webdavFiles;
+  } catch (error) {
+    console.error(`[DEBUG] Error getting items for filter:`, error);
+    return [];
+  }
+}
+
+/**
+ * Imports a local file into the Eagle library
+ * @param filePath Absolute path of the file to import
+ * @param options Item name and optional folder/tag assignments
+ * @returns ID of the newly created item, or null if the import failed
+ */
+export async function importFileToEagle(
+  filePath: string,
+  options: { name: string; folders?: string[]; tags?: string[] }
+): Promise<string | null> {
+  if (typeof eagle === 'undefined') {
+    return null;
+  }
+  
+  try {
+    console.log(`[DEBUG] Importing file into Eagle: ${filePath}`);
+    const itemId = await eagle.item.addFromPath(filePath, options);
+    if (!itemId) {
+      return null;
+    }
+    
+    const item = await eagle.item.getById(itemId);
+    if (item) {
+      updateIndexedItem(toWebDAVFile(item));
+    }
+    return itemId;
+  } catch (error) {
+    eagle.log.error(`Failed to import file ${filePath}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Replaces the file content of an existing Eagle item
+ * @param id The item ID
+ * @param filePath Absolute path of the new file content
+ * @returns True if the file was replaced
+ */
+export async function replaceEagleItemFile(id: string, filePath: string): Promise<boolean> {
+  if (typeof eagle === 'undefined') {
+    return false;
+  }
+  
+  try {
+    const item = await eagle.item.getById(id);
+    if (!item) {
+      return false;
+    }
+    
+    console.log(`[DEBUG] Replacing file content of item ${id} with ${filePath}`);
+    const replaced = await item.replaceFile(filePath);
+    if (replaced) {
+      updateIndexedItem(toWebDAVFile(item));
+    }
+    return replaced;
+  } catch (error) {
+    eagle.log.error(`Failed to replace file of item ${id}: ${error}`);
+    return false;
+  }
+}
+
+/**
+ * Creates a new Eagle folder, optionally nested inside a parent folder
+ * @param name Name of the new folder
+ * @param parentId Optional parent folder ID (creates a root folder if omitted)
+ * @returns ID of the created folder, or null if creation failed
+ */
+export async function createEagleFolder(name: string, parentId?: string): Promise<string | null> {
+  if (typeof eagle === 'undefined') {
+    return null;
+  }
+  
+  try {
+    console.log(`[DEBUG] Creating Eagle folder "${name}"${parentId ? ` in parent ${parentId}` : ''}`);
+    const folder = parentId
+      ? await eagle.folder.createSubfolder(parentId, { name })
+      : await eagle.folder.create({ name });
+    if (!folder) {
+      return null;
+    }
+    
+    replaceIndexedFolders(await eagle.folder.getAll());
+    return folder.id;
+  } catch (error) {
+    eagle.log.error(`Failed to create folder ${name}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Tags registered over WebDAV that have no items yet
+ * Eagle only knows tags that are assigned to items, so these live in memory
+ * until a file is uploaded into them
+ */
+const pendingTags = new Set<string>();
+
+/**
+ * Registers an empty tag so it can be browsed before any item carries it
+ * @param name Tag name
+ */
+export function registerPendingTag(name: string): void {
+  pendingTags.add(name);
+}
+
+/**
+ * Gets tags registered over WebDAV that are not yet known to Eagle
+ * @param existingTags Names of tags Eagle already reports
+ * @returns Pending tag names, excluding ones Eagle now knows about
+ */
+export function getPendingTags(existingTags: string[]): string[] {
+  for (const name of existingTags) {
+    pendingTags.delete(name);
+  }
+  return Array.from(pendingTags);
+}
+
+/**
+ * Gets all tags with their item counts
+ * @returns Array of tags with count information
+ */
+export async function getAllTagsWithCounts(): Promise<Array<EagleWebDAVFolder & { count: number }>> {
+  try {
+    if (typeof eagle === 'undefined') return [];
+    
+    console.log('[DEBUG] Getting all tags with counts');
+    const index = await getIndex();
+    const tags = index.tags;
     
-    // Convert Eagle items to WebDAV format
-    const webdavFiles: EagleWebDAVFile[] = items.map(item => ({
-      id: item.id,
-      name: item.name,
-      size: item.size || 0,
-      mimeType: getMimeType(item.ext),
-      path: item.filePath,
-      lastModified: new Date(item.importedAt),
-      ext: item.ext
+    console.log(`[DEBUG] Got ${tags.length} tags from the library index`);
+    
+    // Convert tags to WebDAV folder format, counting items as they are now
+    const result: Array<EagleWebDAVFolder & { count: number }> = tags.map(tag => ({
+      id: tag.id || tag.name,
+      name: tag.name,
+      count: (index.itemsByTag.get(tag.name) || []).length,
+      path: `/tags/${tag.name}`,
+      lastModified: new Date(),
+      children: []
     }));
     
-    console.log(`[DEBUG] Tag "${tagName}" has ${webdavFiles.length} items`);
-    return webdavFiles;
+    // Include empty tags created via MKCOL that have no items yet
+    for (const name of getPendingTags(tags.map(tag => tag.name))) {
+      result.push({
+        id: name,
+        name,
+        count: 0,
+        path: `/tags/${name}`,
+        lastModified: new Date(),
+        children: []
+      });
+    }
+    
+    return result;
   } catch (error) {
-    console.error(`[DEBUG] Error getting items for tag ${tagName}:`, error);
+    console.error('[DEBUG] Error getting tags:', error);
     return [];
   }
 }
+
+/**
+ * Checks whether a tag exists in the Eagle library or was registered over WebDAV
+ * @param name Tag name
+ * @returns True if the tag exists
+ */
+export async function tagExists(name: string): Promise<boolean> {
+  if (pendingTags.has(name)) {
+    return true;
+  }
+  
+  if (typeof eagle === 'undefined') {
+    return false;
+  }
+  
+  try {
+    return (await getIndex()).tags.some(tag => tag.name === name);
+  } catch (error) {
+    console.error(`[DEBUG] Error checking tag ${name}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Applies changes to an Eagle item and saves it
+ * @param id The item ID
+ * @param update Callback that mutates the item
+ * @returns True if the item was found and saved
+ */
+export async function updateEagleItem(id: string, update: (item: Item) => void): Promise<boolean> {
+  if (typeof eagle === 'undefined') {
+    return false;
+  }
+  
+  try {
+    const item = await eagle.item.getById(id);
+    if (!item) {
+      return false;
+    }
+    
+    update(item);
+    const saved = await item.save();
+    if (saved) {
+      updateIndexedItem(toWebDAVFile(item));
+    }
+    return saved;
+  } catch (error) {
+    eagle.log.error(`Failed to update item ${id}: ${error}`);
+    return false;
+  }
+}
+
+/**
+ * Moves an Eagle item to the trash
+ * @param id The item ID
+ * @returns True if the item was moved to the trash
+ */
+export async function moveEagleItemToTrash(id: string): Promise<boolean> {
+  if (typeof eagle === 'undefined') {
+    return false;
+  }
+  
+  try {
+    const item = await eagle.item.getById(id);
+    if (!item) {
+      return false;
+    }
+    
+    console.log(`[DEBUG] Moving item ${id} to trash`);
+    const trashed = await item.moveToTrash();
+    if (trashed) {
+      removeIndexedItem(id);
+    }
+    return trashed;
+  } catch (error) {
+    eagle.log.error(`Failed to move item ${id} to trash: ${error}`);
+    return false;
+  }
+}
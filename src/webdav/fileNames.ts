@@ -0,0 +1,251 @@
+/**
+ * Exposed filenames of Eagle items
+ * Names follow the filename template configured for the route (item name and
+ * extension by default). Eagle allows several items with the same name in one
+ * folder or tag, but a WebDAV collection needs unique member names, so
+ * duplicates get a '~<item id>' suffix and every listed name maps back to
+ * exactly one item.
+ */
+
+import { WebDAVRoute } from './pathResolver';
+import { getFilenameTemplates } from './settings';
+import { EagleWebDAVFile, EagleWebDAVFolder } from './types';
+
+/**
+ * Separator between an item name and the ID that disambiguates it
+ */
+const DUPLICATE_SEPARATOR = '~';
+
+/**
+ * Gets the filename an item is exposed under
+ * @param file Eagle WebDAV file
+ * @returns Name with extension
+ */
+export function getFileName(file: EagleWebDAVFile): string {
+  return file.name + (file.ext ? `.${file.ext}` : '');
+}
+
+/**
+ * Formats an import timestamp as a local YYYY-MM-DD date, like /timeline
+ * @param timestamp Import time in milliseconds
+ * @returns Date string, or '' without an import time
+ */
+function formatDate(timestamp?: number): string {
+  if (!timestamp) {
+    return '';
+  }
+  const date = new Date(timestamp);
+  return [
+    String(date.getFullYear()),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0')
+  ].join('-');
+}
+
+/**
+ * Tokens available in filename templates
+ */
+const TEMPLATE_TOKENS: Record<string, (file: EagleWebDAVFile) => string> = {
+  id: file => file.id,
+  name: file => file.name,
+  ext: file => file.ext || '',
+  star: file => String(file.star || 0),
+  tag: file => (file.tags || [])[0] || '',
+  date: file => formatDate(file.importedAt),
+  width: file => (file.width !== undefined ? String(file.width) : ''),
+  height: file => (file.height !== undefined ? String(file.height) : '')
+};
+
+/**
+ * Gets the filename template of a route
+ * @param route Root container
+ * @returns Template, or null to expose item names unchanged
+ */
+function getRouteTemplate(route: WebDAVRoute): string | null {
+  const templates = getFilenameTemplates();
+  return templates[route] || templates['*'] || null;
+}
+
+/**
+ * Renders a filename template for an item
+ * Unknown tokens are kept as written; slashes in values are replaced so a
+ * name never spans path segments
+ * @param file Eagle WebDAV file
+ * @param template Template such as '{name}_{width}x{height}.{ext}'
+ * @returns Rendered filename, or the plain filename if the template renders empty
+ */
+function renderFileName(file: EagleWebDAVFile, template: string): string {
+  const rendered = template
+    .replace(/\{(\w+)\}/g, (token, key) => {
+      const value = TEMPLATE_TOKENS[key];
+      return value ? value(file).replace(/[/\\]/g, '_') : token;
+    })
+    .trim()
+    .replace(/\.+$/, ''); // '{name}.{ext}' for an item without extension
+
+  return rendered || getFileName(file);
+}
+
+/**
+ * Escapes text for use as a literal in a regular expression
+ * @param value Text to escape
+ * @returns Escaped text
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Finds the item name a filename template was rendered from
+ * Every token except {name} is fixed by the item, so only the name can differ
+ * @param file Eagle WebDAV file with its Eagle name
+ * @param filename Rendered filename
+ * @param template Filename template of the route
+ * @returns Item name, or null if the template has no {name} or the filename does not follow it
+ */
+function parseTemplateName(file: EagleWebDAVFile, filename: string, template: string): string | null {
+  let hasName = false;
+  const pattern = template.trim().split(/(\{\w+\})/).map(part => {
+    const key = (part.match(/^\{(\w+)\}$/) || [])[1];
+    if (!key || !TEMPLATE_TOKENS[key]) {
+      return escapeRegExp(part);
+    }
+    if (key === 'name') {
+      const group = hasName ? '\\1' : '(.+)';
+      hasName = true;
+      return group;
+    }
+    return escapeRegExp(TEMPLATE_TOKENS[key](file).replace(/[/\\]/g, '_'));
+  }).join('');
+  if (!hasName) {
+    return null;
+  }
+
+  // Rendering trims trailing dots, e.g. '{name}.{ext}' for an item without extension
+  const regex = new RegExp(`^${pattern}$`, 'i');
+  const match = filename.match(regex) || `${filename}.`.match(regex);
+  if (!match) {
+    return null;
+  }
+
+  // Only accept names that render back to the requested filename
+  const rendered = renderFileName({ ...file, name: match[1] }, template);
+  return rendered.toLowerCase() === filename.toLowerCase() ? match[1] : null;
+}
+
+/**
+ * Exposes a file under a rendered filename
+ * The extension is only kept when the rendered name still ends with it, so
+ * templates without {ext} produce names without one
+ * @param file Eagle WebDAV file
+ * @param filename Rendered filename
+ * @returns Copy of the file with name and extension taken from the filename
+ */
+function withFileName(file: EagleWebDAVFile, filename: string): EagleWebDAVFile {
+  const suffix = file.ext ? `.${file.ext}` : '';
+  if (suffix && filename.length > suffix.length && filename.toLowerCase().endsWith(suffix.toLowerCase())) {
+    return { ...file, name: filename.slice(0, -suffix.length) };
+  }
+  return { ...file, name: filename, ext: '' };
+}
+
+/**
+ * Orders items that share a filename: the earliest import keeps the plain name
+ * @param a First file
+ * @param b Second file
+ * @returns Sort order
+ */
+function compareDuplicates(a: EagleWebDAVFile, b: EagleWebDAVFile): number {
+  return (a.importedAt || 0) - (b.importedAt || 0) || a.id.localeCompare(b.id);
+}
+
+/**
+ * Checks whether a collection member is a file
+ * @param item Folder or file
+ * @returns True for files
+ */
+function isFile(item: EagleWebDAVFile | EagleWebDAVFolder): item is EagleWebDAVFile {
+  return !('children' in item) && item.size !== undefined;
+}
+
+/**
+ * Gives every file of a collection a unique filename
+ * Names are compared case-insensitively, since most clients cannot hold
+ * 'Cover.png' and 'cover.png' in one folder. The outcome depends only on which
+ * items collide, not on the order they are listed in, so listings and path
+ * resolution always agree.
+ * @param items Folders and files of a collection
+ * @returns Items with duplicates renamed to 'name~<id>.ext' (folders unchanged)
+ */
+export function withUniqueNames<T extends EagleWebDAVFile | EagleWebDAVFolder>(items: T[]): (T | EagleWebDAVFile)[] {
+  const groups = new Map<string, EagleWebDAVFile[]>();
+  for (const item of items) {
+    if (!isFile(item)) continue;
+    const key = getFileName(item).toLowerCase();
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+
+  const renamed = new Map<EagleWebDAVFile, EagleWebDAVFile>();
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    for (const file of [...group].sort(compareDuplicates).slice(1)) {
+      renamed.set(file, { ...file, name: `${file.name}${DUPLICATE_SEPARATOR}${file.id}` });
+    }
+  }
+
+  if (renamed.size === 0) {
+    return items;
+  }
+  return items.map(item => (isFile(item) && renamed.get(item)) || item);
+}
+
+/**
+ * Maps an exposed filename back to the Eagle item name it stands for
+ * Reverses withFileNames: drops the '~<id>' suffix of duplicates, then the
+ * route's filename template. Items keep their extension, so a filename with
+ * another extension does not map to a name.
+ * @param file Eagle WebDAV file with its Eagle name
+ * @param filename Exposed filename, e.g. the destination of a MOVE
+ * @param route Root container the filename is exposed under
+ * @returns Item name, or null if the filename changes the extension or does not follow the template
+ */
+export function parseFileName(file: EagleWebDAVFile, filename: string, route: WebDAVRoute): string | null {
+  const suffix = file.ext ? `.${file.ext}` : '';
+  const duplicateSuffix = `${DUPLICATE_SEPARATOR}${file.id}`;
+  const hasSuffix = !!suffix && filename.toLowerCase().endsWith(suffix.toLowerCase());
+  const base = hasSuffix ? filename.slice(0, -suffix.length) : filename;
+  const rendered = base.endsWith(duplicateSuffix)
+    ? base.slice(0, -duplicateSuffix.length) + filename.slice(base.length)
+    : filename;
+
+  const template = getRouteTemplate(route);
+  if (template) {
+    return parseTemplateName(file, rendered, template);
+  }
+
+  if (!suffix) {
+    return rendered || null;
+  }
+  const isSameExt = rendered.length > suffix.length && rendered.toLowerCase().endsWith(suffix.toLowerCase());
+  return isSameExt ? rendered.slice(0, -suffix.length) : null;
+}
+
+/**
+ * Gives the files of a collection the names they are exposed under
+ * Applies the route's filename template, then makes the names unique. Listings
+ * and path resolution both go through here, so a rendered name always resolves
+ * back to the item it was rendered for.
+ * @param items Folders and files of a collection
+ * @param route Root container the collection is listed under
+ * @returns Items with exposed names (folders unchanged)
+ */
+export function withFileNames<T extends EagleWebDAVFile | EagleWebDAVFolder>(items: T[], route: WebDAVRoute): (T | EagleWebDAVFile)[] {
+  const template = getRouteTemplate(route);
+  if (!template) {
+    return withUniqueNames(items);
+  }
+
+  return withUniqueNames(items.map(item =>
+    isFile(item) ? withFileName(item, renderFileName(item, template)) : item
+  ));
+}
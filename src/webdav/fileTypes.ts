@@ -0,0 +1,66 @@
+/**
+ * File type index for the /types route
+ * Groups library items by extension and by MIME family (@image, @video, ...)
+ */
+
+import { getLibraryItems, getMimeType } from './eagleUtils';
+import { EagleWebDAVFile } from './types';
+
+/**
+ * An extension or MIME family below /types with its number of items
+ */
+export interface FileTypeBucket {
+  name: string;
+  count: number;
+}
+
+/**
+ * Prefix marking MIME family collections (e.g. '@image')
+ */
+const FAMILY_PREFIX = '@';
+
+/**
+ * Gets the MIME family of a file from its extension
+ * @param file Eagle WebDAV file
+ * @returns MIME top-level type such as 'image' or 'video'
+ */
+function getMimeFamily(file: EagleWebDAVFile): string {
+  return getMimeType(file.ext).split('/')[0];
+}
+
+/**
+ * Lists the MIME families and extensions present in the library with item counts
+ * @returns MIME families (sorted) followed by extensions (sorted)
+ */
+export async function getFileTypeBuckets(): Promise<FileTypeBucket[]> {
+  const families = new Map<string, number>();
+  const extensions = new Map<string, number>();
+
+  for (const item of await getLibraryItems()) {
+    const family = FAMILY_PREFIX + getMimeFamily(item);
+    families.set(family, (families.get(family) || 0) + 1);
+    if (item.ext) {
+      const ext = item.ext.toLowerCase();
+      extensions.set(ext, (extensions.get(ext) || 0) + 1);
+    }
+  }
+
+  const toBuckets = (counts: Map<string, number>) => Array.from(counts.keys())
+    .sort()
+    .map(name => ({ name, count: counts.get(name) || 0 }));
+  return [...toBuckets(families), ...toBuckets(extensions)];
+}
+
+/**
+ * Gets the items of an extension or MIME family collection
+ * Extensions are matched case-insensitively, like the counts in getFileTypeBuckets
+ * @param name Extension (e.g. 'psd') or MIME family (e.g. '@video')
+ * @returns Matching files, or null if nothing in the library has that type
+ */
+export async function getFileTypeItems(name: string): Promise<EagleWebDAVFile[] | null> {
+  const lowerName = name.toLowerCase();
+  const items = (await getLibraryItems()).filter(item => lowerName.startsWith(FAMILY_PREFIX)
+    ? FAMILY_PREFIX + getMimeFamily(item) === lowerName
+    : (item.ext || '').toLowerCase() === lowerName);
+  return items.length > 0 ? items : null;
+}
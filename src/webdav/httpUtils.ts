@@ -0,0 +1,147 @@
+/**
+ * HTTP utilities for WebDAV server
+ * Shared helpers for reading requests and evaluating conditional headers
+ */
+
+import type { IncomingMessage } from 'http';
+import url from 'url';
+
+/**
+ * Validators of the current representation of a resource
+ */
+export interface ResourceValidators {
+  etag?: string;
+  lastModified?: Date | string | number;
+}
+
+/**
+ * Reads the full request body as a UTF-8 string
+ * @param req HTTP request object
+ * @returns Request body
+ */
+export function readRequestBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString();
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Reads a request header as a single string
+ * Node joins repeated headers with ', ' and only uses arrays for a few it knows
+ * @param req HTTP request object
+ * @param name Lowercase header name
+ * @returns Header value, or undefined if it was not sent
+ */
+export function getHeader(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Extracts the destination pathname from the Destination header
+ * The header may be an absolute URL or an absolute path
+ * @param req HTTP request object
+ * @returns Destination pathname or null if missing
+ */
+export function getDestinationPath(req: IncomingMessage): string | null {
+  const destination = getHeader(req, 'destination');
+  if (!destination) {
+    return null;
+  }
+
+  const parsed = url.parse(destination);
+  return parsed.pathname || null;
+}
+
+/**
+ * Generates a strong entity tag for an Eagle file
+ * The tag changes whenever the file content is replaced
+ * @param id Eagle item ID
+ * @param mtime File modification time in milliseconds
+ * @param size File size in bytes
+ * @returns Quoted entity tag
+ */
+export function generateETag(id: string, mtime: number, size: number): string {
+  return `"${id}-${Math.floor(mtime).toString(36)}-${size.toString(36)}"`;
+}
+
+/**
+ * Splits an If-Match/If-None-Match header into entity tags
+ * @param header Raw header value
+ * @returns Entity tags, or ['*'] for the wildcard
+ */
+function parseETagList(header: string): string[] {
+  if (header.trim() === '*') {
+    return ['*'];
+  }
+  return header.match(/(W\/)?"[^"]*"/g) || [];
+}
+
+/**
+ * Compares two entity tags
+ * @param a First entity tag
+ * @param b Second entity tag
+ * @param weak Use weak comparison (ignores W/ prefixes)
+ * @returns True if the tags match
+ */
+function etagsMatch(a: string, b: string, weak: boolean): boolean {
+  if (!weak && (a.startsWith('W/') || b.startsWith('W/'))) {
+    return false;
+  }
+  return a.replace(/^W\//, '') === b.replace(/^W\//, '');
+}
+
+/**
+ * Checks whether a date header is not older than a modification time (1 second precision)
+ * @param header Raw HTTP date header
+ * @param lastModified Modification time of the resource
+ * @returns True/false, or null if either value is missing or invalid
+ */
+function isModifiedSince(header: string, lastModified: Date | string | number | undefined): boolean | null {
+  const date = Date.parse(header);
+  if (isNaN(date) || lastModified === undefined) {
+    return null;
+  }
+  return Math.floor(new Date(lastModified).getTime() / 1000) > Math.floor(date / 1000);
+}
+
+/**
+ * Evaluates conditional request headers (RFC 7232 section 6)
+ * @param req HTTP request object
+ * @param validators Validators of the resource, or null if it does not exist
+ * @returns 304 Not Modified, 412 Precondition Failed, or null to process the request
+ */
+export function evaluatePreconditions(req: IncomingMessage, validators: ResourceValidators | null): 304 | 412 | null {
+  const isRead = req.method === 'GET' || req.method === 'HEAD';
+  const ifMatch = req.headers['if-match'];
+  const ifNoneMatch = req.headers['if-none-match'];
+  const ifModifiedSince = req.headers['if-modified-since'];
+  const ifUnmodifiedSince = req.headers['if-unmodified-since'];
+
+  if (ifMatch) {
+    const tags = parseETagList(ifMatch);
+    const matches = !!validators && (tags[0] === '*' || (!!validators.etag && tags.some(tag => etagsMatch(tag, validators.etag!, false))));
+    if (!matches) {
+      return 412;
+    }
+  } else if (ifUnmodifiedSince && validators && isModifiedSince(ifUnmodifiedSince, validators.lastModified) === true) {
+    return 412;
+  }
+
+  if (ifNoneMatch) {
+    const tags = parseETagList(ifNoneMatch);
+    const matches = !!validators && (tags[0] === '*' || (!!validators.etag && tags.some(tag => etagsMatch(tag, validators.etag!, true))));
+    if (matches) {
+      return isRead ? 304 : 412;
+    }
+  } else if (ifModifiedSince && isRead && validators && isModifiedSince(ifModifiedSince, validators.lastModified) === false) {
+    return 304;
+  }
+
+  return null;
+}
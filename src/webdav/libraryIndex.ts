@@ -0,0 +1,305 @@
+/**
+ * In-memory index of the Eagle library
+ * Items, folders and tags are loaded once and then looked up by id, name or
+ * path. The index is rebuilt when Eagle switches libraries, when the library's
+ * modification time changes (edits made in Eagle) or when the cache TTL runs
+ * out; writes made over WebDAV update it in place.
+ */
+
+import { getLibraryCacheTTL } from './settings';
+import { EagleTag, EagleWebDAVFile } from './types';
+
+/**
+ * Library contents the index is built from
+ */
+export interface LibrarySnapshot {
+  items: EagleWebDAVFile[];
+  folders: Folder[]; // Raw Eagle folder tree (root folders with nested children)
+  tags: EagleTag[];    // Raw Eagle tags
+}
+
+/**
+ * Library contents with lookup maps
+ */
+export interface LibraryIndex {
+  items: EagleWebDAVFile[];
+  folders: Folder[];
+  tags: EagleTag[];
+  itemsById: Map<string, EagleWebDAVFile>;
+  itemsByFolder: Map<string, EagleWebDAVFile[]>;
+  itemsByTag: Map<string, EagleWebDAVFile[]>;
+  foldersById: Map<string, Folder>;
+  foldersByName: Map<string, Folder>; // First folder with the name in tree order
+  foldersByPath: Map<string, Folder>; // Hierarchical path such as '/folder1/subfolder2'
+  itemsByImport: EagleWebDAVFile[] | null; // Items in import order, sorted on first use
+}
+
+let currentIndex: LibraryIndex | null = null;
+let builtAt = 0;
+
+/**
+ * Library modification time the index matches, and how to read the current one
+ */
+let builtVersion: number | undefined;
+let readVersion: (() => number | undefined) | null = null;
+let pendingBuild: Promise<LibraryIndex> | null = null;
+
+/**
+ * Incremented on every invalidation so a build that was started before the
+ * library changed is not kept
+ */
+let generation = 0;
+
+/**
+ * Appends a file to a lookup list
+ * @param map Lookup map
+ * @param key Lookup key
+ * @param file File to add
+ */
+function addToList(map: Map<string, EagleWebDAVFile[]>, key: string, file: EagleWebDAVFile): void {
+  const list = map.get(key);
+  if (list) {
+    list.push(file);
+  } else {
+    map.set(key, [file]);
+  }
+}
+
+/**
+ * Removes a file from a lookup list
+ * @param map Lookup map
+ * @param key Lookup key
+ * @param id ID of the file to remove
+ */
+function removeFromList(map: Map<string, EagleWebDAVFile[]>, key: string, id: string): void {
+  const list = map.get(key);
+  if (!list) return;
+
+  const remaining = list.filter(file => file.id !== id);
+  if (remaining.length > 0) {
+    map.set(key, remaining);
+  } else {
+    map.delete(key);
+  }
+}
+
+/**
+ * Adds a file to the id, folder and tag maps
+ * @param index Library index
+ * @param file File to add
+ */
+function indexItem(index: LibraryIndex, file: EagleWebDAVFile): void {
+  index.itemsById.set(file.id, file);
+  for (const folderId of file.folders || []) {
+    addToList(index.itemsByFolder, folderId, file);
+  }
+  for (const tag of file.tags || []) {
+    addToList(index.itemsByTag, tag, file);
+  }
+}
+
+/**
+ * Removes a file from the id, folder and tag maps
+ * @param index Library index
+ * @param file File to remove
+ */
+function unindexItem(index: LibraryIndex, file: EagleWebDAVFile): void {
+  index.itemsById.delete(file.id);
+  for (const folderId of file.folders || []) {
+    removeFromList(index.itemsByFolder, folderId, file.id);
+  }
+  for (const tag of file.tags || []) {
+    removeFromList(index.itemsByTag, tag, file.id);
+  }
+}
+
+/**
+ * Rebuilds the folder maps from the raw folder tree
+ * @param index Library index
+ * @param folders Raw Eagle folder tree
+ */
+function indexFolders(index: LibraryIndex, folders: Folder[]): void {
+  index.folders = folders;
+  index.foldersById = new Map();
+  index.foldersByName = new Map();
+  index.foldersByPath = new Map();
+
+  function walk(folderList: Folder[], parentPath: string): void {
+    for (const folder of folderList) {
+      const path = `${parentPath}/${folder.name}`;
+      index.foldersById.set(folder.id, folder);
+      if (!index.foldersByName.has(folder.name)) {
+        index.foldersByName.set(folder.name, folder);
+      }
+      // Like the tree walk it replaces, the first sibling with a name wins
+      if (!index.foldersByPath.has(path)) {
+        index.foldersByPath.set(path, folder);
+      }
+      if (folder.children && Array.isArray(folder.children)) {
+        walk(folder.children, path);
+      }
+    }
+  }
+
+  walk(folders, '');
+}
+
+/**
+ * Builds the lookup maps for a library snapshot
+ * @param snapshot Library contents
+ * @returns Library index
+ */
+function createIndex(snapshot: LibrarySnapshot): LibraryIndex {
+  const index: LibraryIndex = {
+    items: snapshot.items,
+    folders: [],
+    tags: snapshot.tags,
+    itemsById: new Map(),
+    itemsByFolder: new Map(),
+    itemsByTag: new Map(),
+    foldersById: new Map(),
+    foldersByName: new Map(),
+    foldersByPath: new Map(),
+    itemsByImport: null
+  };
+
+  for (const file of snapshot.items) {
+    indexItem(index, file);
+  }
+  indexFolders(index, snapshot.folders);
+  return index;
+}
+
+/**
+ * Gets the items of an index sorted by import date, then id
+ * The order is kept on the index until its items change, so paging through a
+ * large library sorts it once per index rather than once per request
+ * @param index Library index
+ * @returns Sorted items (shared, must not be modified)
+ */
+export function getItemsByImport(index: LibraryIndex): EagleWebDAVFile[] {
+  if (!index.itemsByImport) {
+    index.itemsByImport = [...index.items].sort((a, b) =>
+      (a.importedAt || 0) - (b.importedAt || 0) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+    );
+  }
+  return index.itemsByImport;
+}
+
+/**
+ * Marks the index as matching the current library modification time
+ * Called after a write made over WebDAV has been applied in place, so the
+ * library change it causes does not trigger a full reload
+ */
+function markIndexCurrent(): void {
+  if (readVersion) {
+    builtVersion = readVersion();
+  }
+}
+
+/**
+ * Gets the library index, building it if it is missing, older than the cache
+ * TTL or the library was modified since it was built
+ * Concurrent callers share a single build
+ * @param load Loads the library contents from Eagle
+ * @param getVersion Reads the library modification time
+ * @returns Library index
+ */
+export async function getLibraryIndex(load: () => Promise<LibrarySnapshot>, getVersion: () => number | undefined): Promise<LibraryIndex> {
+  readVersion = getVersion;
+  const version = getVersion();
+
+  if (currentIndex && Date.now() - builtAt < getLibraryCacheTTL() * 1000 && version === builtVersion) {
+    return currentIndex;
+  }
+
+  if (currentIndex && version !== builtVersion) {
+    console.log('[DEBUG] Library modified in Eagle - rebuilding library index');
+  }
+
+  if (!pendingBuild) {
+    const buildGeneration = generation;
+    const build = load().then(snapshot => {
+      const index = createIndex(snapshot);
+      if (buildGeneration === generation) {
+        currentIndex = index;
+        builtAt = Date.now();
+        builtVersion = version;
+        console.log(`[DEBUG] Library index built: ${index.items.length} items, ${index.foldersById.size} folders, ${index.tags.length} tags`);
+      }
+      return index;
+    });
+    pendingBuild = build;
+    build.then(
+      () => { if (pendingBuild === build) pendingBuild = null; },
+      () => { if (pendingBuild === build) pendingBuild = null; }
+    );
+  }
+
+  return pendingBuild;
+}
+
+/**
+ * Drops the library index so the next lookup reloads it from Eagle
+ */
+export function invalidateLibraryIndex(): void {
+  currentIndex = null;
+  pendingBuild = null;
+  generation++;
+  console.log('[DEBUG] Library index invalidated');
+}
+
+/**
+ * Adds or replaces an item in the library index
+ * Does nothing when no index is loaded
+ * @param file Current state of the item
+ */
+export function updateIndexedItem(file: EagleWebDAVFile): void {
+  if (!currentIndex) return;
+
+  const existing = currentIndex.itemsById.get(file.id);
+  if (existing) {
+    unindexItem(currentIndex, existing);
+    currentIndex.items = currentIndex.items.map(item => item.id === file.id ? file : item);
+  } else {
+    currentIndex.items = [...currentIndex.items, file];
+  }
+  currentIndex.itemsByImport = null;
+  indexItem(currentIndex, file);
+  markIndexCurrent();
+
+  // Tags Eagle creates implicitly when they are first assigned
+  for (const tag of file.tags || []) {
+    if (!currentIndex.tags.some(entry => entry.name === tag)) {
+      currentIndex.tags = [...currentIndex.tags, { id: tag, name: tag }];
+    }
+  }
+}
+
+/**
+ * Removes an item from the library index
+ * Does nothing when no index is loaded
+ * @param id The item ID
+ */
+export function removeIndexedItem(id: string): void {
+  if (!currentIndex) return;
+
+  const existing = currentIndex.itemsById.get(id);
+  if (!existing) return;
+
+  unindexItem(currentIndex, existing);
+  currentIndex.items = currentIndex.items.filter(item => item.id !== id);
+  currentIndex.itemsByImport = null;
+  markIndexCurrent();
+}
+
+/**
+ * Replaces the folder tree of the library index
+ * Does nothing when no index is loaded
+ * @param folders Raw Eagle folder tree
+ */
+export function replaceIndexedFolders(folders: Folder[]): void {
+  if (!currentIndex) return;
+  indexFolders(currentIndex, folders);
+  markIndexCurrent();
+}
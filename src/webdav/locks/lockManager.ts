@@ -0,0 +1,292 @@
+/**
+ * In-memory lock manager for WebDAV LOCK/UNLOCK (RFC 4918 section 6)
+ * Locks are keyed by the Eagle resource they protect, so a file stays locked
+ * no matter which route (/hierarchy, /tags, /files, ...) it is addressed through
+ */
+
+import crypto from 'crypto';
+import { parseWebDAVPath, resolveResource } from '../pathResolver';
+
+/**
+ * Lock scope as defined by RFC 4918
+ */
+export type LockScope = 'exclusive' | 'shared';
+
+/**
+ * An active write lock
+ */
+export interface WebDAVLock {
+  token: string;
+  key: string;
+  root: string;
+  scope: LockScope;
+  depth: '0' | 'infinity';
+  owner: string;
+  timeout: number;
+  expiresAt: number;
+}
+
+/**
+ * The lockable resource a request path maps onto
+ */
+export interface LockTarget {
+  key: string;
+  exists: boolean;
+}
+
+/**
+ * Default lock timeout in seconds when the client does not request one
+ */
+export const DEFAULT_LOCK_TIMEOUT = 3600;
+
+/**
+ * Longest lock timeout in seconds granted to a client
+ */
+export const MAX_LOCK_TIMEOUT = 86400;
+
+export class LockManager {
+  private static instance: LockManager | null = null;
+  private locks = new Map<string, WebDAVLock>();
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): LockManager {
+    if (!LockManager.instance) {
+      LockManager.instance = new LockManager();
+    }
+    return LockManager.instance;
+  }
+
+  /**
+   * Creates a new lock if it does not conflict with existing locks
+   * Exclusive locks conflict with any lock; shared locks only with exclusive ones
+   * @param key Resource key from resolveLockTarget
+   * @param root Request path the lock was created on
+   * @param options Lock scope, depth, owner XML and timeout in seconds
+   * @param related Locks on other keys that overlap the new one (ancestors, descendants)
+   * @returns The new lock, or null on conflict
+   */
+  lock(key: string, root: string, options: { scope: LockScope; depth: '0' | 'infinity'; owner: string; timeout: number }, related: WebDAVLock[] = []): WebDAVLock | null {
+    const existing = [...this.getLocks(key), ...related];
+    if (existing.some(lock => lock.scope === 'exclusive') || (existing.length > 0 && options.scope === 'exclusive')) {
+      console.log(`[DEBUG] Lock conflict on ${key}`);
+      return null;
+    }
+
+    const lock: WebDAVLock = {
+      token: `opaquelocktoken:${crypto.randomUUID()}`,
+      key,
+      root,
+      scope: options.scope,
+      depth: options.depth,
+      owner: options.owner,
+      timeout: options.timeout,
+      expiresAt: Date.now() + options.timeout * 1000
+    };
+
+    this.locks.set(lock.token, lock);
+    console.log(`[DEBUG] Created ${lock.scope} lock ${lock.token} on ${key}`);
+    return lock;
+  }
+
+  /**
+   * Extends the timeout of an existing lock
+   * @param token Lock token
+   * @param timeout New timeout in seconds
+   * @returns The refreshed lock, or null if the token is unknown or expired
+   */
+  refresh(token: string, timeout: number): WebDAVLock | null {
+    const lock = this.getLock(token);
+    if (!lock) {
+      return null;
+    }
+
+    lock.timeout = timeout;
+    lock.expiresAt = Date.now() + timeout * 1000;
+    console.log(`[DEBUG] Refreshed lock ${token} for ${timeout}s`);
+    return lock;
+  }
+
+  /**
+   * Removes a lock
+   * @param token Lock token
+   * @returns True if a lock was removed
+   */
+  unlock(token: string): boolean {
+    const removed = this.locks.delete(token);
+    console.log(`[DEBUG] Unlock ${token}: ${removed ? 'removed' : 'not found'}`);
+    return removed;
+  }
+
+  /**
+   * Gets an active lock by its token
+   * @param token Lock token
+   * @returns The lock or null if unknown or expired
+   */
+  getLock(token: string): WebDAVLock | null {
+    this.purgeExpired();
+    return this.locks.get(token) || null;
+  }
+
+  /**
+   * Gets all active locks on a resource
+   * @param key Resource key
+   * @returns Active locks
+   */
+  getLocks(key: string): WebDAVLock[] {
+    this.purgeExpired();
+    return Array.from(this.locks.values()).filter(lock => lock.key === key);
+  }
+
+  /**
+   * Gets all active locks
+   * @returns Active locks
+   */
+  getAllLocks(): WebDAVLock[] {
+    this.purgeExpired();
+    return Array.from(this.locks.values());
+  }
+
+  /**
+   * Moves the locks of one resource key to another
+   * Used when a lock-null resource (a path key) is created as an Eagle resource
+   * @param fromKey Current resource key
+   * @param toKey New resource key
+   */
+  moveLocks(fromKey: string, toKey: string): void {
+    for (const lock of this.getLocks(fromKey)) {
+      lock.key = toKey;
+      console.log(`[DEBUG] Moved lock ${lock.token} from ${fromKey} to ${toKey}`);
+    }
+  }
+
+  /**
+   * Checks whether any lock is currently held
+   * @returns True if at least one lock is active
+   */
+  hasLocks(): boolean {
+    this.purgeExpired();
+    return this.locks.size > 0;
+  }
+
+  /**
+   * Drops locks whose timeout has elapsed
+   */
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [token, lock] of this.locks) {
+      if (lock.expiresAt <= now) {
+        console.log(`[DEBUG] Lock ${token} on ${lock.key} expired`);
+        this.locks.delete(token);
+      }
+    }
+  }
+}
+
+/**
+ * Gets the lock key of an Eagle item
+ * @param id Item ID
+ * @returns Lock key
+ */
+export function getItemLockKey(id: string): string {
+  return `item:${id}`;
+}
+
+/**
+ * Gets the lock key of an Eagle folder
+ * @param id Folder ID
+ * @returns Lock key
+ */
+export function getFolderLockKey(id: string): string {
+  return `folder:${id}`;
+}
+
+/**
+ * Gets the lock key of an Eagle tag
+ * @param name Tag name
+ * @returns Lock key
+ */
+export function getTagLockKey(name: string): string {
+  return `tag:${name}`;
+}
+
+/**
+ * Gets the lock key of a path that does not map onto an Eagle resource
+ * @param pathname Request pathname
+ * @returns Lock key
+ */
+export function getPathLockKey(pathname: string): string {
+  const { route, segments } = parseWebDAVPath(pathname);
+  return 'path:/' + (route ? [route, ...segments] : segments).join('/');
+}
+
+/**
+ * Maps a request path onto the lockable resource it addresses
+ * Unmapped paths fall back to a path key so clients can lock a name before
+ * uploading to it (RFC 4918 section 7.3)
+ * @param pathname Request pathname
+ * @returns Lock key and whether the resource exists
+ */
+export async function resolveLockTarget(pathname: string): Promise<LockTarget> {
+  const resource = await resolveResource(pathname);
+
+  if (resource?.type === 'file') {
+    return { key: getItemLockKey(resource.file.id), exists: true };
+  }
+  if (resource?.folderId) {
+    return { key: getFolderLockKey(resource.folderId), exists: true };
+  }
+  if (resource?.tagName) {
+    return { key: getTagLockKey(resource.tagName), exists: true };
+  }
+
+  // Root containers get a path key; anything else is an unmapped URL
+  return { key: getPathLockKey(pathname), exists: !!resource };
+}
+
+/**
+ * Extracts the lock tokens submitted in an If header (RFC 4918 section 10.4)
+ * Both untagged and tagged lists are accepted; only state tokens are collected
+ * @param header Raw If header value
+ * @returns Submitted lock tokens
+ */
+export function parseIfHeaderTokens(header: string | undefined): string[] {
+  if (!header) {
+    return [];
+  }
+
+  const tokens: string[] = [];
+  const tokenPattern = /<(opaquelocktoken:[^>]+)>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(header)) !== null) {
+    tokens.push(match[1]);
+  }
+  return tokens;
+}
+
+/**
+ * Parses a Timeout header into seconds, capped at MAX_LOCK_TIMEOUT
+ * @param header Raw Timeout header value (e.g. 'Second-600, Infinite')
+ * @returns Timeout in seconds
+ */
+export function parseTimeoutHeader(header: string | undefined): number {
+  if (!header) {
+    return DEFAULT_LOCK_TIMEOUT;
+  }
+
+  for (const value of header.split(',').map(part => part.trim())) {
+    if (value.toLowerCase() === 'infinite') {
+      return MAX_LOCK_TIMEOUT;
+    }
+    const match = /^Second-(\d+)$/i.exec(value);
+    if (match) {
+      return Math.min(Math.max(parseInt(match[1], 10), 1), MAX_LOCK_TIMEOUT);
+    }
+  }
+
+  return DEFAULT_LOCK_TIMEOUT;
+}
+
+export const lockManager = LockManager.getInstance();
@@ -0,0 +1,85 @@
+/**
+ * XML generation utilities for WebDAV locks
+ */
+
+import { escapeXML, generateHrefPath, getXMLDeclaration } from '../xmlUtils';
+import { lockManager, WebDAVLock } from './lockManager';
+
+/**
+ * Generates a single activelock element
+ * @param lock Active lock
+ * @param indent Leading whitespace for the element
+ * @returns WebDAV activelock XML
+ */
+function generateActiveLock(lock: WebDAVLock, indent: string): string {
+  let xml = `${indent}<D:activelock>\n`;
+  xml += `${indent}  <D:locktype><D:write/></D:locktype>\n`;
+  xml += `${indent}  <D:lockscope><D:${lock.scope}/></D:lockscope>\n`;
+  xml += `${indent}  <D:depth>${lock.depth}</D:depth>\n`;
+  if (lock.owner) {
+    xml += `${indent}  <D:owner>${lock.owner}</D:owner>\n`;
+  }
+  xml += `${indent}  <D:timeout>Second-${Math.max(0, Math.round((lock.expiresAt - Date.now()) / 1000))}</D:timeout>\n`;
+  xml += `${indent}  <D:locktoken><D:href>${escapeXML(lock.token)}</D:href></D:locktoken>\n`;
+  xml += `${indent}  <D:lockroot><D:href>${generateHrefPath(lock.root)}</D:href></D:lockroot>\n`;
+  xml += `${indent}</D:activelock>\n`;
+  return xml;
+}
+
+/**
+ * Generates the supportedlock property advertising exclusive and shared write locks
+ * @returns WebDAV supportedlock XML
+ */
+export function generateSupportedLock(): string {
+  let xml = '        <D:supportedlock>\n';
+  for (const scope of ['exclusive', 'shared']) {
+    xml += '          <D:lockentry>\n';
+    xml += `            <D:lockscope><D:${scope}/></D:lockscope>\n`;
+    xml += '            <D:locktype><D:write/></D:locktype>\n';
+    xml += '          </D:lockentry>\n';
+  }
+  xml += '        </D:supportedlock>\n';
+  return xml;
+}
+
+/**
+ * Generates the lockdiscovery property for a set of locks
+ * @param locks Active locks on the resource
+ * @returns WebDAV lockdiscovery XML
+ */
+export function generateLockDiscovery(locks: WebDAVLock[]): string {
+  if (locks.length === 0) {
+    return '        <D:lockdiscovery/>\n';
+  }
+
+  let xml = '        <D:lockdiscovery>\n';
+  for (const lock of locks) {
+    xml += generateActiveLock(lock, '          ');
+  }
+  xml += '        </D:lockdiscovery>\n';
+  return xml;
+}
+
+/**
+ * Generates supportedlock and lockdiscovery properties for a resource
+ * @param key Lock key of the resource (see getItemLockKey and friends)
+ * @returns WebDAV lock property XML
+ */
+export function generateLockProperties(key: string): string {
+  return generateSupportedLock() + generateLockDiscovery(lockManager.getLocks(key));
+}
+
+/**
+ * Generates the response body for a successful LOCK request
+ * @param lock The created or refreshed lock
+ * @returns WebDAV prop XML containing the lockdiscovery
+ */
+export function generateLockResponseXML(lock: WebDAVLock): string {
+  let xml = getXMLDeclaration();
+  xml += '<D:prop xmlns:D="DAV:">\n';
+  xml += '  <D:lockdiscovery>\n';
+  xml += generateActiveLock(lock, '    ');
+  xml += '  </D:lockdiscovery>\n';
+  xml += '</D:prop>\n';
+  return xml;
+}
@@ -0,0 +1,202 @@
+/**
+ * COPY and MOVE method handlers for WebDAV server
+ * Maps WebDAV copy/move semantics onto Eagle folder and tag membership
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { getFileById, updateEagleItem } from '../eagleUtils';
+import { getFileName, parseFileName } from '../fileNames';
+import { getDestinationPath } from '../httpUtils';
+import { getCollectionFilePath, parseWebDAVPath, resolveCollection, resolveFile, findFileByName, WebDAVCollection } from '../pathResolver';
+import { generateHrefPath } from '../xmlUtils';
+
+/**
+ * Adds an item to the folder or tag a collection represents
+ * @param item Eagle item to modify
+ * @param collection Target collection
+ */
+function addMembership(item: Item, collection: WebDAVCollection): void {
+  if (collection.folderId && !(item.folders || []).includes(collection.folderId)) {
+    item.folders = [...(item.folders || []), collection.folderId];
+  }
+  if (collection.tagName && !(item.tags || []).includes(collection.tagName)) {
+    item.tags = [...(item.tags || []), collection.tagName];
+  }
+}
+
+/**
+ * Removes an item from the folder or tag a collection represents
+ * @param item Eagle item to modify
+ * @param collection Collection to detach from
+ */
+function removeMembership(item: Item, collection: WebDAVCollection): void {
+  if (collection.folderId) {
+    item.folders = (item.folders || []).filter(id => id !== collection.folderId);
+  }
+  if (collection.tagName) {
+    item.tags = (item.tags || []).filter(tag => tag !== collection.tagName);
+  }
+}
+
+/**
+ * Shared COPY/MOVE implementation
+ * - MOVE between folders/tags replaces the source membership with the destination one
+ * - MOVE within one collection renames the item
+ * - COPY adds the destination membership without duplicating file content
+ * @param method 'COPY' or 'MOVE'
+ * @param pathname Source pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ */
+async function handleCopyOrMove(
+  method: 'COPY' | 'MOVE',
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void
+): Promise<void> {
+  const destinationPath = getDestinationPath(req);
+  if (!destinationPath) {
+    sendResponse(res, 400, { error: 'Destination header is required' });
+    return;
+  }
+
+  const overwrite = String(req.headers.overwrite || 'T').toUpperCase() !== 'F';
+  console.log(`[DEBUG] ${method} - Source: ${pathname}, Destination: ${destinationPath}, Overwrite: ${overwrite}`);
+
+  if (pathname.endsWith('/') || parseWebDAVPath(pathname).segments.length === 0) {
+    sendResponse(res, 403, { error: `${method} of collections is not supported` });
+    return;
+  }
+
+  const source = await resolveFile(pathname);
+  if (!source) {
+    sendResponse(res, 404, { error: 'Source file not found' });
+    return;
+  }
+
+  if (source.file.sidecarContent !== undefined) {
+    sendResponse(res, 403, { error: `${method} of metadata sidecars is not supported` });
+    return;
+  }
+
+  const { route: destRoute, segments: destSegments } = parseWebDAVPath(destinationPath);
+  if (destRoute !== 'hierarchy' && destRoute !== 'folders' && destRoute !== 'tags') {
+    sendResponse(res, 403, { error: 'Destination must be inside /hierarchy, /folders or /tags' });
+    return;
+  }
+
+  if (destSegments.length < 2 || destinationPath.endsWith('/')) {
+    sendResponse(res, 409, { error: 'Destination must be a file inside a folder or tag' });
+    return;
+  }
+
+  const destFilename = destSegments[destSegments.length - 1];
+  const destCollection = await resolveCollection(destRoute, destSegments.slice(0, -1));
+  if (!destCollection) {
+    sendResponse(res, 409, { error: 'Destination collection not found' });
+    return;
+  }
+
+  const { file } = source;
+  const eagleFile = await getFileById(file.id);
+  if (!eagleFile) {
+    sendResponse(res, 404, { error: 'Source file not found' });
+    return;
+  }
+
+  // Listed names carry filename templates and '~<id>' suffixes, so renames compare Eagle names
+  const destName = destFilename === getFileName(file) ? eagleFile.name : parseFileName(eagleFile, destFilename, destRoute);
+  if (destName === null) {
+    sendResponse(res, 403, { error: 'The new name must keep the file extension and follow the filename template' });
+    return;
+  }
+
+  const sameCollection = source.collection.path === destCollection.path;
+  const isRename = destName !== eagleFile.name;
+
+  if (sameCollection && !isRename) {
+    sendResponse(res, 403, { error: 'Source and destination are the same' });
+    return;
+  }
+
+  if (method === 'COPY' && isRename) {
+    // Eagle items are shared between collections, so a copy cannot carry its own name
+    sendResponse(res, 403, { error: 'COPY cannot rename a file; copy it under the same name' });
+    return;
+  }
+
+  const existing = findFileByName(destCollection.items, destFilename);
+  const replacesOther = !!existing && existing.id !== file.id;
+  if (replacesOther && !overwrite) {
+    sendResponse(res, 412, { error: 'Destination exists and Overwrite is F' });
+    return;
+  }
+
+  if (replacesOther && existing) {
+    // Overwriting detaches the other item from the destination instead of deleting it
+    console.log(`[DEBUG] ${method} - Detaching overwritten item ${existing.id} from ${destCollection.path}`);
+    await updateEagleItem(existing.id, (item) => removeMembership(item, destCollection));
+  }
+
+  const success = await updateEagleItem(file.id, (item) => {
+    addMembership(item, destCollection);
+    if (method === 'MOVE') {
+      if (!sameCollection) {
+        removeMembership(item, source.collection);
+      }
+      if (isRename) {
+        item.name = destName;
+      }
+    }
+  });
+
+  if (!success) {
+    sendResponse(res, 500, { error: `${method} failed` });
+    return;
+  }
+
+  if (existing) {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const destPath = await getCollectionFilePath(destRoute, destSegments.slice(0, -1), file.id);
+  const href = generateHrefPath(destPath || destinationPath);
+  res.setHeader('Location', href);
+  sendResponse(res, 201, { id: file.id, href });
+}
+
+/**
+ * Handles COPY requests - adds folder/tag membership to the source item
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ */
+export async function handleCOPY(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void
+): Promise<void> {
+  await handleCopyOrMove('COPY', pathname, req, res, sendResponse);
+}
+
+/**
+ * Handles MOVE requests - changes folder/tag membership or renames the item
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ */
+export async function handleMOVE(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void
+): Promise<void> {
+  await handleCopyOrMove('MOVE', pathname, req, res, sendResponse);
+}
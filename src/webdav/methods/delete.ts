@@ -0,0 +1,74 @@
+/**
+ * DELETE method handler for WebDAV server
+ * Moves items to the Eagle trash or removes a single folder/tag membership
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { moveEagleItemToTrash, updateEagleItem } from '../eagleUtils';
+import { parseWebDAVPath, resolveFile } from '../pathResolver';
+import { getFolderDeleteMode } from '../settings';
+
+/**
+ * Handles DELETE requests for files
+ * - /tags/{tag}/{file} and /tagGroups/{group}/{tag}/{file} remove only that
+ *   tag from the item
+ * - /folders/... and /hierarchy/... trash the item, or remove it from that
+ *   folder only when the folder delete mode is 'unlink'
+ * - any other route moves the item to the Eagle trash
+ * @param pathname Request pathname
+ * @param _req HTTP request object (unused)
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ */
+export async function handleDELETE(
+  pathname: string,
+  _req: IncomingMessage,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void
+): Promise<void> {
+  const { route, segments } = parseWebDAVPath(pathname);
+  if (!route || segments.length === 0 || pathname.endsWith('/')) {
+    sendResponse(res, 403, { error: 'Deleting collections is not supported' });
+    return;
+  }
+
+  const resolved = await resolveFile(pathname);
+  if (!resolved) {
+    console.log(`[DEBUG] DELETE target not found: ${pathname}`);
+    sendResponse(res, 404, { error: 'File not found' });
+    return;
+  }
+
+  const { collection, file } = resolved;
+  if (file.sidecarContent !== undefined) {
+    sendResponse(res, 403, { error: 'Metadata sidecars are generated and cannot be deleted' });
+    return;
+  }
+
+  let success: boolean;
+
+  if (collection.tagName) {
+    // Deleting from a tag view only detaches that tag
+    const tagName = collection.tagName;
+    console.log(`[DEBUG] DELETE - Removing tag "${tagName}" from item ${file.id}`);
+    success = await updateEagleItem(file.id, (item) => {
+      item.tags = (item.tags || []).filter(tag => tag !== tagName);
+    });
+  } else if (collection.folderId && getFolderDeleteMode() === 'unlink') {
+    const folderId = collection.folderId;
+    console.log(`[DEBUG] DELETE - Removing item ${file.id} from folder ${folderId}`);
+    success = await updateEagleItem(file.id, (item) => {
+      item.folders = (item.folders || []).filter(id => id !== folderId);
+    });
+  } else {
+    success = await moveEagleItemToTrash(file.id);
+  }
+
+  if (!success) {
+    sendResponse(res, 500, { error: 'Failed to delete file' });
+    return;
+  }
+
+  res.writeHead(204);
+  res.end();
+}
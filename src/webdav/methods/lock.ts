@@ -0,0 +1,245 @@
+/**
+ * LOCK and UNLOCK method handlers for WebDAV server
+ * Also enforces submitted lock tokens on write methods
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { getDestinationPath, getHeader, readRequestBody } from '../httpUtils';
+import { lockManager, LockScope, parseIfHeaderTokens, parseTimeoutHeader, resolveLockTarget, WebDAVLock } from '../locks/lockManager';
+import { generateLockResponseXML } from '../locks/xml';
+import { parseWebDAVPath } from '../pathResolver';
+import { getChildElements, parseXML } from '../xmlUtils';
+
+/**
+ * Resolves the lock keys of the collections above a path, nearest first
+ * @param pathname Request pathname
+ * @returns Lock keys of the parent, grandparent, ... up to the root container
+ */
+async function getAncestorLockKeys(pathname: string): Promise<string[]> {
+  const { route, segments } = parseWebDAVPath(pathname);
+  const parts = route ? [route, ...segments] : segments;
+  const keys: string[] = [];
+  for (let length = parts.length - 1; length >= 1; length--) {
+    const { key } = await resolveLockTarget('/' + parts.slice(0, length).join('/') + '/');
+    keys.push(key);
+  }
+  return keys;
+}
+
+/**
+ * Finds the locks on other resources that a new lock overlaps with
+ * - depth-infinity locks on the collections above the path
+ * - for a depth-infinity lock, locks on resources inside the collection
+ * @param pathname Request pathname
+ * @param key Lock key of the path
+ * @param depth Depth of the new lock
+ * @returns Overlapping locks
+ */
+async function findRelatedLocks(pathname: string, key: string, depth: '0' | 'infinity'): Promise<WebDAVLock[]> {
+  const related: WebDAVLock[] = [];
+  for (const ancestorKey of await getAncestorLockKeys(pathname)) {
+    related.push(...lockManager.getLocks(ancestorKey).filter(lock => lock.depth === 'infinity'));
+  }
+
+  if (depth === 'infinity') {
+    for (const lock of lockManager.getAllLocks()) {
+      if (lock.key !== key && !related.includes(lock) && (await getAncestorLockKeys(lock.root)).includes(key)) {
+        related.push(lock);
+      }
+    }
+  }
+  return related;
+}
+
+/**
+ * Handles LOCK requests
+ * - a lockinfo body creates a new exclusive or shared write lock
+ * - an empty body refreshes the lock named in the If header
+ * Locking an unmapped URL reserves it and answers 201 Created
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ * @param sendXMLResponse XML response sending function
+ */
+export async function handleLOCK(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void,
+  sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void
+): Promise<void> {
+  const body = await readRequestBody(req);
+  const timeout = parseTimeoutHeader(getHeader(req, 'timeout'));
+
+  if (!body.trim()) {
+    // Refresh an existing lock
+    const lock = parseIfHeaderTokens(getHeader(req, 'if'))
+      .map(token => lockManager.getLock(token))
+      .find((candidate): candidate is WebDAVLock => !!candidate);
+
+    if (!lock) {
+      sendResponse(res, 412, { error: 'No matching lock to refresh' });
+      return;
+    }
+
+    // The token must lock the request URI itself or a collection above it
+    const target = await resolveLockTarget(pathname);
+    const coversTarget = lock.key === target.key || lock.root === pathname ||
+      (lock.depth === 'infinity' && (await getAncestorLockKeys(pathname)).includes(lock.key));
+    if (!coversTarget) {
+      console.log(`[DEBUG] LOCK refresh - Token ${lock.token} does not lock ${pathname}`);
+      sendResponse(res, 412, { error: 'Lock token does not match the resource' });
+      return;
+    }
+
+    lockManager.refresh(lock.token, timeout);
+    sendXMLResponse(res, 200, generateLockResponseXML(lock));
+    return;
+  }
+
+  const doc = parseXML(body);
+  const root = doc?.documentElement;
+  if (!root || root.localName !== 'lockinfo' || root.namespaceURI !== 'DAV:') {
+    sendResponse(res, 400, { error: 'Invalid lockinfo body' });
+    return;
+  }
+
+  const [scopeElement] = getChildElements(root, 'lockscope');
+  const [scopeValue] = scopeElement ? getChildElements(scopeElement) : [];
+  const scope: LockScope = scopeValue?.localName === 'shared' ? 'shared' : 'exclusive';
+
+  // Keep the owner element content verbatim so it can be echoed back
+  const [ownerElement] = getChildElements(root, 'owner');
+  const serializer = new XMLSerializer();
+  const owner = ownerElement
+    ? Array.from(ownerElement.childNodes).map(node => serializer.serializeToString(node)).join('').trim()
+    : '';
+
+  const target = await resolveLockTarget(pathname);
+  const depth = req.headers.depth === '0' || target.key.startsWith('item:') ? '0' : 'infinity';
+
+  console.log(`[DEBUG] LOCK - Path: ${pathname}, Key: ${target.key}, Scope: ${scope}, Depth: ${depth}, Timeout: ${timeout}`);
+
+  const related = await findRelatedLocks(pathname, target.key, depth);
+  const lock = lockManager.lock(target.key, pathname, { scope, depth, owner, timeout }, related);
+  if (!lock) {
+    sendResponse(res, 423, { error: 'Resource is already locked' });
+    return;
+  }
+
+  res.setHeader('Lock-Token', `<${lock.token}>`);
+  sendXMLResponse(res, target.exists ? 200 : 201, generateLockResponseXML(lock));
+}
+
+/**
+ * Handles UNLOCK requests using the Lock-Token header
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ */
+export async function handleUNLOCK(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void
+): Promise<void> {
+  const header = getHeader(req, 'lock-token') || '';
+  const token = (/<([^>]+)>/.exec(header)?.[1] || header).trim();
+  if (!token) {
+    sendResponse(res, 400, { error: 'Lock-Token header is required' });
+    return;
+  }
+
+  const lock = lockManager.getLock(token);
+  const target = await resolveLockTarget(pathname);
+  if (!lock || (lock.key !== target.key && lock.root !== pathname)) {
+    console.log(`[DEBUG] UNLOCK - Token ${token} does not lock ${pathname}`);
+    sendResponse(res, 409, { error: 'Lock token does not match the resource' });
+    return;
+  }
+
+  lockManager.unlock(token);
+  res.writeHead(204);
+  res.end();
+}
+
+/**
+ * Finds a lock that prevents modifying a path without one of the submitted tokens
+ * Checks locks on the resource itself, depth-infinity locks on its ancestors and,
+ * when the parent's membership changes, any lock on the parent collection
+ * @param pathname Path being modified
+ * @param tokens Lock tokens submitted in the If header
+ * @param membershipChange Whether a member is added to or removed from the parent
+ * @returns The first blocking lock, or null if the path may be modified
+ */
+async function findBlockingLock(pathname: string, tokens: string[], membershipChange: boolean): Promise<WebDAVLock | null> {
+  const target = await resolveLockTarget(pathname);
+  const groups: WebDAVLock[][] = [lockManager.getLocks(target.key)];
+
+  const ancestorKeys = await getAncestorLockKeys(pathname);
+  ancestorKeys.forEach((key, index) => {
+    const isParent = index === 0;
+    groups.push(lockManager.getLocks(key).filter(lock =>
+      lock.depth === 'infinity' || (isParent && (membershipChange || !target.exists))
+    ));
+  });
+
+  for (const locks of groups) {
+    if (locks.length > 0 && !locks.some(lock => tokens.includes(lock.token))) {
+      return locks[0];
+    }
+  }
+  return null;
+}
+
+/**
+ * Enforces locks before a write method runs (RFC 4918 sections 7 and 10.4)
+ * - 412 Precondition Failed if the If header names no active lock
+ * - 423 Locked if a lock covers the request target or destination and its token was not submitted
+ * @param method HTTP method
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ * @returns True if the request may proceed; otherwise an error was sent
+ */
+export async function enforceLocks(
+  method: string,
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void
+): Promise<boolean> {
+  const tokens = parseIfHeaderTokens(getHeader(req, 'if'));
+
+  if (tokens.length > 0 && !tokens.some(token => lockManager.getLock(token))) {
+    console.log(`[DEBUG] ${method} - If header names no active lock: ${getHeader(req, 'if')}`);
+    sendResponse(res, 412, { error: 'Submitted lock token is not valid' });
+    return false;
+  }
+
+  if (!lockManager.hasLocks()) {
+    return true;
+  }
+
+  const checks: { path: string; membershipChange: boolean }[] = [
+    { path: pathname, membershipChange: ['DELETE', 'MKCOL', 'MOVE'].includes(method) }
+  ];
+  const destinationPath = getDestinationPath(req);
+  if ((method === 'COPY' || method === 'MOVE') && destinationPath) {
+    checks.push({ path: destinationPath, membershipChange: true });
+  }
+
+  for (const { path, membershipChange } of checks) {
+    const blocking = await findBlockingLock(path, tokens, membershipChange);
+    if (blocking) {
+      console.log(`[DEBUG] ${method} - ${path} is locked by ${blocking.token}`);
+      sendResponse(res, 423, { error: 'Resource is locked', lockRoot: blocking.root });
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,125 @@
+/**
+ * MKCOL method handler for WebDAV server
+ * Creates Eagle folders and registers empty tags (RFC 4918 section 9.3)
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createEagleFolder, findEagleFolderByPath, getFolderByName, registerPendingTag, tagExists } from '../eagleUtils';
+import { parseWebDAVPath } from '../pathResolver';
+import { generateHrefPath } from '../xmlUtils';
+
+/**
+ * Sends the 201 Created response for a new collection
+ * @param res HTTP response object
+ * @param pathname Request pathname of the new collection
+ * @param id ID of the created Eagle folder or tag name
+ * @param sendResponse Response sending function
+ */
+function sendCreated(
+  res: ServerResponse,
+  pathname: string,
+  id: string,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void
+): void {
+  const href = generateHrefPath(pathname.endsWith('/') ? pathname : pathname + '/');
+  res.setHeader('Location', href);
+  sendResponse(res, 201, { id, href });
+}
+
+/**
+ * Handles MKCOL requests
+ * - /hierarchy/{parent path}/{name} creates a (sub)folder under the resolved parent
+ * - /folders/{name} creates a root-level folder
+ * - /tags/{name} registers an empty tag until a file is uploaded into it
+ * Responds 201 when created, 405 when the target exists and 409 when a parent is missing
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ */
+export async function handleMKCOL(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void
+): Promise<void> {
+  // MKCOL request bodies are not supported (RFC 4918 section 9.3)
+  const contentLength = parseInt(req.headers['content-length'] || '0', 10);
+  if (contentLength > 0 || req.headers['transfer-encoding']) {
+    sendResponse(res, 415, { error: 'MKCOL request bodies are not supported' });
+    return;
+  }
+
+  const { route, segments } = parseWebDAVPath(pathname);
+  console.log(`[DEBUG] MKCOL - Route: ${route}, Segments:`, segments);
+
+  if (!route) {
+    const status = segments.length === 0 ? 405 : 403;
+    sendResponse(res, status, { error: 'Collections can only be created inside /hierarchy, /folders or /tags' });
+    return;
+  }
+
+  if (segments.length === 0) {
+    sendResponse(res, 405, { error: 'Collection already exists' });
+    return;
+  }
+
+  const name = segments[segments.length - 1];
+
+  if (route === 'hierarchy') {
+    const folderPath = '/' + segments.join('/');
+    if (await findEagleFolderByPath(folderPath)) {
+      sendResponse(res, 405, { error: 'Folder already exists' });
+      return;
+    }
+
+    let parentId: string | undefined;
+    if (segments.length > 1) {
+      const parent = await findEagleFolderByPath('/' + segments.slice(0, -1).join('/'));
+      if (!parent) {
+        sendResponse(res, 409, { error: 'Parent folder not found' });
+        return;
+      }
+      parentId = parent.id;
+    }
+
+    const folderId = await createEagleFolder(name, parentId);
+    if (!folderId) {
+      sendResponse(res, 500, { error: 'Failed to create folder' });
+      return;
+    }
+    sendCreated(res, pathname, folderId, sendResponse);
+  } else if (route === 'folders') {
+    if (segments.length > 1) {
+      sendResponse(res, 409, { error: 'Folders route is flat; use /hierarchy to create subfolders' });
+      return;
+    }
+
+    if (await getFolderByName(name)) {
+      sendResponse(res, 405, { error: 'Folder already exists' });
+      return;
+    }
+
+    const folderId = await createEagleFolder(name);
+    if (!folderId) {
+      sendResponse(res, 500, { error: 'Failed to create folder' });
+      return;
+    }
+    sendCreated(res, pathname, folderId, sendResponse);
+  } else if (route === 'tags') {
+    if (segments.length > 1) {
+      sendResponse(res, 409, { error: 'Tags cannot be nested' });
+      return;
+    }
+
+    if (await tagExists(name)) {
+      sendResponse(res, 405, { error: 'Tag already exists' });
+      return;
+    }
+
+    registerPendingTag(name);
+    sendCreated(res, pathname, name, sendResponse);
+  } else {
+    sendResponse(res, 403, { error: `Collections cannot be created inside /${route}` });
+  }
+}
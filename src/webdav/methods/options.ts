@@ -0,0 +1,70 @@
+/**
+ * OPTIONS method handler for WebDAV server
+ * Advertises DAV compliance classes and the methods allowed on each path
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { parseWebDAVPath, resolveResource } from '../pathResolver';
+import { isReadOnlyMode } from '../settings';
+import { SUPPORTED_QUERY_GRAMMARS } from './search';
+
+/**
+ * Routes whose collections accept new files and subcollections
+ */
+const WRITABLE_ROUTES = ['hierarchy', 'folders', 'tags'];
+
+/**
+ * Computes the methods allowed on a path from its route and resource type
+ * - files: read methods, plus PUT/DELETE/PROPPATCH/COPY/MOVE/LOCK/UNLOCK
+ * - collections: PROPFIND/HEAD/SEARCH, plus LOCK/UNLOCK
+ * - unmapped paths in a writable collection: PUT/MKCOL/LOCK to create them
+ * Write methods are omitted in read-only mode
+ * @param pathname Request pathname
+ * @returns Allowed HTTP methods
+ */
+export async function getAllowedMethods(pathname: string): Promise<string[]> {
+  const { route, segments } = parseWebDAVPath(pathname);
+  const writable = !isReadOnlyMode() && route !== 'thumbnails';
+  const resource = await resolveResource(pathname);
+
+  if (resource?.type === 'file') {
+    const methods = ['OPTIONS', 'GET', 'HEAD', 'PROPFIND'];
+    return writable ? [...methods, 'PUT', 'DELETE', 'PROPPATCH', 'COPY', 'MOVE', 'LOCK', 'UNLOCK'] : methods;
+  }
+
+  if (resource) {
+    const methods = ['OPTIONS', 'PROPFIND', 'HEAD', 'SEARCH'];
+    return writable ? [...methods, 'LOCK', 'UNLOCK'] : methods;
+  }
+
+  if (writable && route && WRITABLE_ROUTES.includes(route)) {
+    const parentPath = '/' + [route, ...segments.slice(0, -1)].join('/') + '/';
+    const parent = await resolveResource(parentPath);
+    if (parent?.type === 'collection') {
+      return ['OPTIONS', 'PUT', 'MKCOL', 'LOCK'];
+    }
+  }
+
+  return ['OPTIONS'];
+}
+
+/**
+ * Handles WebDAV OPTIONS requests (RFC 4918 section 9.1 and 18)
+ * Reports class 1 and 2 compliance, or class 1 only in read-only mode since
+ * locking is unavailable there, and advertises the supported SEARCH grammars (RFC 5323)
+ * @param pathname Request pathname
+ * @param _req HTTP request object (unused)
+ * @param res HTTP response object
+ */
+export async function handleOPTIONS(pathname: string, _req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const allowed = await getAllowedMethods(pathname);
+  console.log(`[DEBUG] OPTIONS - Path: ${pathname}, Allow: ${allowed.join(', ')}`);
+
+  res.setHeader('DAV', isReadOnlyMode() ? '1' : '1, 2');
+  res.setHeader('Allow', allowed.join(', '));
+  res.setHeader('DASL', SUPPORTED_QUERY_GRAMMARS.join(', '));
+  res.setHeader('MS-Author-Via', 'DAV');
+  res.setHeader('Content-Length', '0');
+  res.writeHead(200);
+  res.end();
+}
@@ -0,0 +1,50 @@
+/**
+ * Conditional request handling for PROPFIND and write methods
+ * GET and HEAD evaluate their preconditions while serving the file (see rangeUtils)
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { evaluatePreconditions } from '../httpUtils';
+import { resolveResource } from '../pathResolver';
+
+/**
+ * Conditional headers defined by RFC 7232
+ */
+const CONDITIONAL_HEADERS = ['if-match', 'if-none-match', 'if-modified-since', 'if-unmodified-since'];
+
+/**
+ * Enforces If-Match, If-None-Match and If-Unmodified-Since on the request target
+ * Files are compared against their ETag and modification time; collections have
+ * no stable validators and only match the '*' wildcard
+ * @param method HTTP method
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ * @returns True if the request may proceed; otherwise 412 was sent
+ */
+export async function enforcePreconditions(
+  method: string,
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void
+): Promise<boolean> {
+  if (!CONDITIONAL_HEADERS.some(header => req.headers[header])) {
+    return true;
+  }
+
+  const resource = await resolveResource(pathname);
+  const validators = resource?.type === 'file'
+    ? { etag: resource.file.etag, lastModified: resource.file.lastModified }
+    : resource ? {} : null;
+
+  const status = evaluatePreconditions(req, validators);
+  if (status) {
+    console.log(`[DEBUG] ${method} - Precondition failed for ${pathname}`);
+    sendResponse(res, 412, { error: 'Precondition failed' });
+    return false;
+  }
+
+  return true;
+}
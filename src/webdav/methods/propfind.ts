@@ -0,0 +1,148 @@
+/**
+ * PROPFIND request body handling for WebDAV server
+ * Applies <D:prop>, <D:allprop> and <D:propname> requests to generated multistatus responses
+ */
+
+import { EAGLE_NAMESPACE, getChildElements, getXMLDeclaration, parseXML } from '../xmlUtils';
+
+/**
+ * A parsed PROPFIND request body
+ */
+export interface PropfindRequest {
+  mode: 'allprop' | 'propname' | 'prop';
+  props: { namespace: string; name: string }[];
+}
+
+/**
+ * Parses a PROPFIND request body (RFC 4918 section 9.1)
+ * An empty body is treated as allprop
+ * @param body Raw request body
+ * @returns Parsed request, or null if the body is malformed
+ */
+export function parsePropfindBody(body: string): PropfindRequest | null {
+  if (!body || !body.trim()) {
+    return { mode: 'allprop', props: [] };
+  }
+
+  const doc = parseXML(body);
+  const root = doc?.documentElement;
+  if (!root || root.localName !== 'propfind' || root.namespaceURI !== 'DAV:') {
+    return null;
+  }
+
+  const [child] = getChildElements(root).filter(element => element.namespaceURI === 'DAV:');
+  if (!child || child.localName === 'allprop') {
+    return { mode: 'allprop', props: [] };
+  }
+  if (child.localName === 'propname') {
+    return { mode: 'propname', props: [] };
+  }
+  if (child.localName === 'prop') {
+    const props = getChildElements(child).map(element => ({
+      namespace: element.namespaceURI || '',
+      name: element.localName
+    }));
+    return { mode: 'prop', props };
+  }
+
+  return null;
+}
+
+/**
+ * Creates a property element using the prefixes declared on our multistatus responses
+ * @param doc Owner document
+ * @param namespace Property namespace URI
+ * @param name Property local name
+ * @returns Empty property element
+ */
+function createPropertyElement(doc: Document, namespace: string, name: string): Element {
+  if (namespace === 'DAV:') {
+    return doc.createElementNS(namespace, `D:${name}`);
+  }
+  if (namespace === EAGLE_NAMESPACE) {
+    return doc.createElementNS(namespace, `eagle:${name}`);
+  }
+  return doc.createElementNS(namespace || null, name);
+}
+
+/**
+ * Creates a propstat element holding the given properties
+ * @param doc Owner document
+ * @param props Property elements
+ * @param status Status line suffix such as '200 OK'
+ * @returns Propstat element
+ */
+function createPropstat(doc: Document, props: Element[], status: string): Element {
+  const propstat = doc.createElementNS('DAV:', 'D:propstat');
+  const prop = doc.createElementNS('DAV:', 'D:prop');
+  for (const element of props) {
+    prop.appendChild(element);
+  }
+  const statusElement = doc.createElementNS('DAV:', 'D:status');
+  statusElement.textContent = `HTTP/1.1 ${status}`;
+  propstat.appendChild(prop);
+  propstat.appendChild(statusElement);
+  return propstat;
+}
+
+/**
+ * Restricts a generated multistatus response to what the client asked for
+ * - allprop: returned unchanged
+ * - propname: property names only, without values
+ * - prop: requested properties, with unknown ones reported as 404 Not Found
+ * @param xml Multistatus XML produced by a route handler
+ * @param request Parsed PROPFIND request
+ * @returns Filtered multistatus XML
+ */
+export function applyPropfindRequest(xml: string, request: PropfindRequest): string {
+  if (request.mode === 'allprop') {
+    return xml;
+  }
+
+  const doc = parseXML(xml);
+  if (!doc) {
+    return xml;
+  }
+
+  const responses = Array.from(doc.getElementsByTagNameNS('DAV:', 'response'));
+  for (const response of responses) {
+    // Collect every property the route handler produced for this resource
+    const available = new Map<string, Element>();
+    for (const propstat of getChildElements(response, 'propstat')) {
+      for (const prop of getChildElements(propstat, 'prop')) {
+        for (const element of getChildElements(prop)) {
+          available.set(`${element.namespaceURI}|${element.localName}`, element);
+        }
+      }
+      response.removeChild(propstat);
+    }
+
+    if (request.mode === 'propname') {
+      const names = Array.from(available.values()).map(element =>
+        createPropertyElement(doc, element.namespaceURI || '', element.localName)
+      );
+      response.appendChild(createPropstat(doc, names, '200 OK'));
+      continue;
+    }
+
+    const found: Element[] = [];
+    const missing: Element[] = [];
+    for (const { namespace, name } of request.props) {
+      const element = available.get(`${namespace}|${name}`);
+      if (element) {
+        found.push(element.cloneNode(true) as Element);
+      } else {
+        missing.push(createPropertyElement(doc, namespace, name));
+      }
+    }
+
+    if (found.length > 0) {
+      response.appendChild(createPropstat(doc, found, '200 OK'));
+    }
+    if (missing.length > 0) {
+      response.appendChild(createPropstat(doc, missing, '404 Not Found'));
+    }
+  }
+
+  return getXMLDeclaration() + new XMLSerializer().serializeToString(doc.documentElement);
+}
@@ -0,0 +1,162 @@
+/**
+ * PROPPATCH method handler for WebDAV server
+ * Edits Eagle item metadata exposed as properties in the Eagle namespace
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { updateEagleItem } from '../eagleUtils';
+import { readRequestBody } from '../httpUtils';
+import { resolveFile } from '../pathResolver';
+import { EAGLE_NAMESPACE, getChildElements, parseXML } from '../xmlUtils';
+import { generatePropPatchXML, PropertyResult } from './xml';
+
+/**
+ * A single requested property change
+ */
+interface PropertyChange {
+  namespace: string;
+  name: string;
+  action: 'set' | 'remove';
+  element: Element;
+}
+
+/**
+ * Eagle item fields that can be edited through PROPPATCH
+ */
+const WRITABLE_PROPERTIES = ['annotation', 'star', 'url', 'tags'];
+
+/**
+ * Parses the tags property value
+ * Accepts <eagle:tag> child elements or a comma-separated list
+ * @param element The eagle:tags element
+ * @returns Tag names
+ */
+function parseTagsValue(element: Element): string[] {
+  const tagElements = getChildElements(element, 'tag');
+  const values = tagElements.length > 0
+    ? tagElements.map(tag => tag.textContent || '')
+    : (element.textContent || '').split(',');
+
+  return values.map(tag => tag.trim()).filter(tag => tag);
+}
+
+/**
+ * Validates a change and returns a function that applies it to an item
+ * @param change Requested property change
+ * @returns Applier function, or an error result if the change is invalid
+ */
+function prepareChange(change: PropertyChange): ((item: Item) => void) | PropertyResult {
+  const { namespace, name, action, element } = change;
+
+  if (namespace !== EAGLE_NAMESPACE || !WRITABLE_PROPERTIES.includes(name)) {
+    return { namespace, name, status: 403, description: 'Property cannot be modified' };
+  }
+
+  const text = (element.textContent || '').trim();
+
+  switch (name) {
+    case 'annotation':
+      return (item) => { item.annotation = action === 'set' ? (element.textContent || '') : ''; };
+    case 'url':
+      return (item) => { item.url = action === 'set' ? text : ''; };
+    case 'tags': {
+      const tags = action === 'set' ? parseTagsValue(element) : [];
+      return (item) => { item.tags = tags; };
+    }
+    case 'star': {
+      const star = action === 'set' ? Number(text) : 0;
+      if (!Number.isInteger(star) || star < 0 || star > 5) {
+        return { namespace, name, status: 409, description: 'Star rating must be an integer from 0 to 5' };
+      }
+      return (item) => { item.star = star; };
+    }
+    default:
+      return { namespace, name, status: 403, description: 'Property cannot be modified' };
+  }
+}
+
+/**
+ * Handles PROPPATCH requests for files
+ * Changes are applied atomically: if any property fails, none are saved and
+ * the remaining properties report 424 Failed Dependency
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ * @param sendXMLResponse XML response sending function
+ */
+export async function handlePROPPATCH(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void,
+  sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void
+): Promise<void> {
+  const body = await readRequestBody(req);
+  const doc = parseXML(body);
+  const root = doc?.documentElement;
+
+  if (!root || root.localName !== 'propertyupdate' || root.namespaceURI !== 'DAV:') {
+    sendResponse(res, 400, { error: 'Invalid propertyupdate body' });
+    return;
+  }
+
+  const resolved = await resolveFile(pathname);
+  if (!resolved) {
+    if (pathname.endsWith('/')) {
+      sendResponse(res, 403, { error: 'Properties of collections cannot be modified' });
+    } else {
+      sendResponse(res, 404, { error: 'File not found' });
+    }
+    return;
+  }
+
+  // Collect set/remove instructions in document order
+  const changes: PropertyChange[] = [];
+  for (const instruction of getChildElements(root)) {
+    if (instruction.namespaceURI !== 'DAV:' || (instruction.localName !== 'set' && instruction.localName !== 'remove')) {
+      continue;
+    }
+    for (const prop of getChildElements(instruction, 'prop')) {
+      for (const element of getChildElements(prop)) {
+        changes.push({
+          namespace: element.namespaceURI || '',
+          name: element.localName,
+          action: instruction.localName as 'set' | 'remove',
+          element
+        });
+      }
+    }
+  }
+
+  console.log(`[DEBUG] PROPPATCH - Path: ${pathname}, Changes: ${changes.map(change => `${change.action} ${change.name}`).join(', ')}`);
+
+  const appliers: ((item: Item) => void)[] = [];
+  const failures: PropertyResult[] = [];
+  for (const change of changes) {
+    const prepared = prepareChange(change);
+    if (typeof prepared === 'function') {
+      appliers.push(prepared);
+    } else {
+      failures.push(prepared);
+    }
+  }
+
+  let results: PropertyResult[];
+  if (failures.length > 0) {
+    results = changes.map(change =>
+      failures.find(failure => failure.namespace === change.namespace && failure.name === change.name) ||
+      { namespace: change.namespace, name: change.name, status: 424 }
+    );
+  } else {
+    const saved = appliers.length === 0 || await updateEagleItem(resolved.file.id, (item) => {
+      for (const apply of appliers) {
+        apply(item);
+      }
+    });
+    const status = saved ? 200 : 409;
+    results = changes.map(change => ({ namespace: change.namespace, name: change.name, status }));
+  }
+
+  sendXMLResponse(res, 207, generatePropPatchXML(pathname, results));
+}
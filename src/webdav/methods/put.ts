@@ -0,0 +1,220 @@
+/**
+ * PUT method handler for WebDAV server
+ * Imports uploaded files into Eagle folders and tags
+ */
+
+import fs from 'fs';
+import type { IncomingMessage, ServerResponse } from 'http';
+import os from 'os';
+import path from 'path';
+import { importFileToEagle, replaceEagleItemFile, updateEagleItem } from '../eagleUtils';
+import { readRequestBody } from '../httpUtils';
+import { getItemLockKey, getPathLockKey, lockManager } from '../locks/lockManager';
+import { getCollectionFilePath, parseWebDAVPath, resolveCollection, findFileByName, splitFilename, WebDAVCollection } from '../pathResolver';
+import { applySidecarMetadata, parseSidecarMetadata, parseSidecarName, SidecarKind } from '../sidecars';
+import { generateHrefPath } from '../xmlUtils';
+
+/**
+ * Checks whether a decoded path segment can be used as an upload filename
+ * Segments may contain encoded separators (%2F), which must never reach the
+ * temp file path
+ * @param filename Decoded filename
+ * @returns True if the name stays inside a single directory
+ */
+function isValidUploadFilename(filename: string): boolean {
+  return filename !== '' && filename !== '.' && filename !== '..' && !/[/\\]/.test(filename);
+}
+
+/**
+ * Creates a private temporary directory for one upload
+ * @returns Absolute path of the directory
+ */
+function createTempUploadDir(): string {
+  const tmpRoot = typeof eagle !== 'undefined' ? eagle.os.tmpdir() : os.tmpdir();
+  return fs.mkdtempSync(path.join(tmpRoot, 'eagle-webdav-'));
+}
+
+/**
+ * Streams the request body into a temporary file
+ * On a failed or aborted upload the file is closed before the promise rejects,
+ * so the caller can remove it
+ * @param req HTTP request object
+ * @param tempPath Absolute path of the file to write
+ * @returns Resolves once the whole body is written
+ */
+function writeRequestBodyToTempFile(req: IncomingMessage, tempPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const stream = fs.createWriteStream(tempPath);
+    let failed = false;
+    const fail = (error: Error) => {
+      if (failed) return;
+      failed = true;
+      req.unpipe(stream);
+      stream.once('close', () => reject(error));
+      stream.destroy();
+    };
+
+    stream.on('finish', () => resolve());
+    stream.on('error', fail);
+    req.on('error', fail);
+    req.on('aborted', () => fail(new Error('Upload aborted by the client')));
+    req.pipe(stream);
+  });
+}
+
+/**
+ * Removes a temporary upload directory and the file inside it
+ * @param tempDir Directory returned by createTempUploadDir
+ */
+function removeTempFile(tempDir: string): void {
+  try {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  } catch (error) {
+    console.error(`[DEBUG] Failed to remove temp upload ${tempDir}:`, error);
+  }
+}
+
+/**
+ * Writes an uploaded metadata sidecar back to the item it belongs to
+ * @param collection Collection the sidecar was uploaded into
+ * @param baseName Filename of the item the sidecar describes
+ * @param kind Sidecar format
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ */
+async function handleSidecarPUT(
+  collection: WebDAVCollection,
+  baseName: string,
+  kind: SidecarKind,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void
+): Promise<void> {
+  const body = await readRequestBody(req);
+  const file = findFileByName(collection.items, baseName);
+  if (!file) {
+    sendResponse(res, 409, { error: `No item named "${baseName}" for this sidecar` });
+    return;
+  }
+
+  const metadata = parseSidecarMetadata(kind, body);
+  if (!metadata) {
+    sendResponse(res, 400, { error: `Invalid ${kind.toUpperCase()} sidecar` });
+    return;
+  }
+
+  console.log(`[DEBUG] PUT sidecar - Updating item ${file.id} from ${kind} sidecar`);
+  const success = await updateEagleItem(file.id, (item) => applySidecarMetadata(item, metadata));
+  if (!success) {
+    sendResponse(res, 500, { error: 'Failed to update item metadata' });
+    return;
+  }
+
+  res.writeHead(204);
+  res.end();
+}
+
+/**
+ * Handles PUT requests - uploads a file into a folder or tag collection
+ * Supported targets:
+ * - /hierarchy/{folder path}/{filename}
+ * - /folders/{folderName}/{filename}
+ * - /tags/{tagName}/{filename}
+ * Existing files with the same name have their content replaced instead
+ * In sidecar mode, <name>.<ext>.eagle.json and <name>.<ext>.xmp update the
+ * metadata of the matching item instead of importing a new file
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ */
+export async function handlePUT(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void
+): Promise<void> {
+  const { route, segments } = parseWebDAVPath(pathname);
+
+  if (pathname.endsWith('/')) {
+    sendResponse(res, 405, { error: 'PUT is not allowed on collections' });
+    return;
+  }
+
+  if (route !== 'hierarchy' && route !== 'folders' && route !== 'tags') {
+    sendResponse(res, 403, { error: 'Files can only be uploaded into /hierarchy, /folders or /tags' });
+    return;
+  }
+
+  if (segments.length < 2 || (route !== 'hierarchy' && segments.length !== 2)) {
+    sendResponse(res, 409, { error: 'Files must be uploaded into an existing folder or tag' });
+    return;
+  }
+
+  const filename = segments[segments.length - 1];
+  if (!isValidUploadFilename(filename)) {
+    sendResponse(res, 400, { error: 'Invalid filename' });
+    return;
+  }
+
+  const collection = await resolveCollection(route, segments.slice(0, -1));
+  if (!collection) {
+    console.log(`[DEBUG] PUT target collection not found for: ${pathname}`);
+    sendResponse(res, 409, { error: 'Parent collection not found' });
+    return;
+  }
+
+  console.log(`[DEBUG] PUT upload - Collection: "${collection.path}", Filename: "${filename}"`);
+
+  const sidecar = findFileByName(collection.items, filename) ? null : parseSidecarName(filename);
+  if (sidecar) {
+    await handleSidecarPUT(collection, sidecar.baseName, sidecar.kind, req, res, sendResponse);
+    return;
+  }
+
+  // The file keeps the uploaded filename so Eagle can detect its extension
+  const tempDir = createTempUploadDir();
+  try {
+    const tempPath = path.join(tempDir, path.basename(filename));
+    await writeRequestBodyToTempFile(req, tempPath);
+
+    const existing = findFileByName(collection.items, filename);
+    if (existing) {
+      // Overwrite the existing item's content in place
+      const replaced = await replaceEagleItemFile(existing.id, tempPath);
+      if (!replaced) {
+        sendResponse(res, 500, { error: 'Failed to replace file' });
+        return;
+      }
+      console.log(`[DEBUG] Replaced content of item ${existing.id}`);
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const { name } = splitFilename(filename);
+    const itemId = await importFileToEagle(tempPath, {
+      name,
+      folders: collection.folderId ? [collection.folderId] : undefined,
+      tags: collection.tagName ? [collection.tagName] : undefined
+    });
+
+    if (!itemId) {
+      sendResponse(res, 500, { error: 'Failed to import file into Eagle' });
+      return;
+    }
+
+    // A lock taken on the unmapped URL now protects the new item
+    lockManager.moveLocks(getPathLockKey(pathname), getItemLockKey(itemId));
+
+    // The item is listed under its rendered name when the route has a filename template
+    const itemPath = await getCollectionFilePath(route, segments.slice(0, -1), itemId);
+    const href = generateHrefPath(itemPath || `${collection.path}/${filename}`);
+    console.log(`[DEBUG] Imported item ${itemId} at ${href}`);
+    res.setHeader('Location', href);
+    sendResponse(res, 201, { id: itemId, href });
+  } finally {
+    removeTempFile(tempDir);
+  }
+}
@@ -0,0 +1,450 @@
+/**
+ * SEARCH method handler for WebDAV server (RFC 5323 DASL)
+ * Supports the DAV:basicsearch grammar over file properties and Eagle metadata
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import url from 'url';
+import { getItemsByFilter } from '../eagleUtils';
+import { readRequestBody } from '../httpUtils';
+import { parseWebDAVPath, resolveCollection } from '../pathResolver';
+import { EagleItemFilter, EagleWebDAVFile } from '../types';
+import { EAGLE_NAMESPACE, getChildElements, parseXML, recursiveDecodeURI } from '../xmlUtils';
+import { applyPropfindRequest, PropfindRequest } from './propfind';
+import { generateSearchResultsXML } from './xml';
+
+/**
+ * Query grammars advertised through the DASL header
+ */
+export const SUPPORTED_QUERY_GRAMMARS = ['<DAV:basicsearch>'];
+
+/**
+ * A property a basicsearch request sorts by
+ */
+interface SearchOrder {
+  namespace: string;
+  name: string;
+  descending: boolean;
+}
+
+/**
+ * A parsed basicsearch request
+ */
+interface BasicSearchRequest {
+  select: PropfindRequest;
+  scopes: string[];
+  where: Element | null;
+  orderBy: SearchOrder[];
+  limit?: number;
+}
+
+/**
+ * Property types used when comparing literals
+ */
+type PropertyType = 'string' | 'number' | 'date' | 'list';
+
+/**
+ * Value of a searchable property (list properties hold strings)
+ */
+type PropertyValue = string | number | Date | undefined;
+
+/**
+ * Searchable properties, keyed by 'namespace|name'
+ */
+const SEARCHABLE_PROPERTIES: { [key: string]: { type: PropertyType; get: (file: EagleWebDAVFile) => PropertyValue | string[] } } = {
+  'DAV:|displayname': { type: 'string', get: file => file.name + (file.ext ? `.${file.ext}` : '') },
+  'DAV:|getcontentlength': { type: 'number', get: file => file.size },
+  'DAV:|getcontenttype': { type: 'string', get: file => file.mimeType },
+  'DAV:|getlastmodified': { type: 'date', get: file => file.lastModified },
+  [`${EAGLE_NAMESPACE}|id`]: { type: 'string', get: file => file.id },
+  [`${EAGLE_NAMESPACE}|annotation`]: { type: 'string', get: file => file.annotation },
+  [`${EAGLE_NAMESPACE}|url`]: { type: 'string', get: file => file.url },
+  [`${EAGLE_NAMESPACE}|star`]: { type: 'number', get: file => file.star || 0 },
+  [`${EAGLE_NAMESPACE}|width`]: { type: 'number', get: file => file.width },
+  [`${EAGLE_NAMESPACE}|height`]: { type: 'number', get: file => file.height },
+  [`${EAGLE_NAMESPACE}|tags`]: { type: 'list', get: file => file.tags || [] },
+  [`${EAGLE_NAMESPACE}|folders`]: { type: 'list', get: file => file.folders || [] }
+};
+
+/**
+ * Gets the first DAV: child element with the given name
+ * @param element Parent element
+ * @param localName Child local name
+ * @returns Child element or undefined
+ */
+function getDAVChild(element: Element, localName: string): Element | undefined {
+  return getChildElements(element, localName).find(child => child.namespaceURI === 'DAV:');
+}
+
+/**
+ * Parses a SEARCH request body
+ * @param body Raw request body
+ * @returns Parsed request, 'unsupported' for other query grammars, or null if malformed
+ */
+function parseSearchBody(body: string): BasicSearchRequest | 'unsupported' | null {
+  const root = parseXML(body)?.documentElement;
+  if (!root || root.localName !== 'searchrequest' || root.namespaceURI !== 'DAV:') {
+    return null;
+  }
+
+  const basicsearch = getDAVChild(root, 'basicsearch');
+  if (!basicsearch) {
+    return getChildElements(root).length > 0 ? 'unsupported' : null;
+  }
+
+  const selectElement = getDAVChild(basicsearch, 'select');
+  const fromElement = getDAVChild(basicsearch, 'from');
+  if (!selectElement || !fromElement) {
+    return null;
+  }
+
+  const propElement = getDAVChild(selectElement, 'prop');
+  const select: PropfindRequest = propElement
+    ? { mode: 'prop', props: getChildElements(propElement).map(element => ({ namespace: element.namespaceURI || '', name: element.localName })) }
+    : { mode: 'allprop', props: [] };
+
+  const scopes = getChildElements(fromElement, 'scope')
+    .map(scope => (getDAVChild(scope, 'href')?.textContent || '').trim())
+    .filter(href => href);
+  if (scopes.length === 0) {
+    return null;
+  }
+
+  const whereElement = getDAVChild(basicsearch, 'where');
+  const where = whereElement ? getChildElements(whereElement)[0] || null : null;
+
+  const orderBy: SearchOrder[] = [];
+  const orderbyElement = getDAVChild(basicsearch, 'orderby');
+  for (const order of orderbyElement ? getChildElements(orderbyElement, 'order') : []) {
+    const [prop] = getChildElements(getDAVChild(order, 'prop') || order);
+    if (prop) {
+      orderBy.push({ namespace: prop.namespaceURI || '', name: prop.localName, descending: !!getDAVChild(order, 'descending') });
+    }
+  }
+
+  const limitElement = getDAVChild(basicsearch, 'limit');
+  const nresults = limitElement ? parseInt(getDAVChild(limitElement, 'nresults')?.textContent || '', 10) : NaN;
+
+  return { select, scopes, where, orderBy, limit: isNaN(nresults) ? undefined : nresults };
+}
+
+/**
+ * Comparison operators of the basicsearch grammar
+ */
+const COMPARISON_OPERATORS = ['eq', 'lt', 'lte', 'gt', 'gte', 'like'];
+
+/**
+ * Looks up the searchable property named in an operator's <D:prop>
+ * @param element Operator element (eq, like, is-defined, ...)
+ * @returns Property definition, or undefined if missing or not searchable
+ */
+function getOperandProperty(element: Element): (typeof SEARCHABLE_PROPERTIES)[string] | undefined {
+  const propElement = getDAVChild(element, 'prop');
+  const [prop] = propElement ? getChildElements(propElement) : [];
+  return prop ? SEARCHABLE_PROPERTIES[`${prop.namespaceURI}|${prop.localName}`] : undefined;
+}
+
+/**
+ * Reads the literal operand of a comparison
+ * @param element Comparison element
+ * @returns Literal text, or null if missing
+ */
+function getOperandLiteral(element: Element): string | null {
+  const literalElement = getDAVChild(element, 'literal') || getDAVChild(element, 'typed-literal');
+  return literalElement ? literalElement.textContent || '' : null;
+}
+
+/**
+ * Checks that a where expression only uses supported operators and searchable properties
+ * @param element Expression element
+ * @returns Description of the first unsupported part, or null if the expression can be evaluated
+ */
+function findUnsupportedExpression(element: Element): string | null {
+  const operator = element.localName;
+
+  if (operator === 'and' || operator === 'or' || operator === 'not') {
+    const children = getChildElements(element);
+    if (children.length === 0 || (operator === 'not' && children.length !== 1)) {
+      return `<${operator}> has the wrong number of operands`;
+    }
+    for (const child of children) {
+      const problem = findUnsupportedExpression(child);
+      if (problem) return problem;
+    }
+    return null;
+  }
+
+  if (operator === 'is-collection') {
+    return null;
+  }
+  if (operator === 'is-defined' || COMPARISON_OPERATORS.includes(operator)) {
+    if (!getOperandProperty(element)) {
+      return `<${operator}> must name a searchable property`;
+    }
+    if (operator !== 'is-defined' && getOperandLiteral(element) === null) {
+      return `<${operator}> requires a literal`;
+    }
+    return null;
+  }
+
+  return `Operator <${operator}> is not supported`;
+}
+
+/**
+ * Compares a property value to a literal
+ * @param type Property type
+ * @param value Property value
+ * @param literal Literal text from the query
+ * @param caseless Whether string comparisons ignore case
+ * @returns Negative, zero or positive like a sort comparator, or NaN if not comparable
+ */
+function compareValue(type: PropertyType, value: PropertyValue, literal: string, caseless: boolean): number {
+  if (value === undefined || value === null) {
+    return NaN;
+  }
+  if (type === 'number') {
+    return Number(value) - parseFloat(literal);
+  }
+  if (type === 'date') {
+    return new Date(value).getTime() - Date.parse(literal);
+  }
+  const left = caseless ? String(value).toLowerCase() : String(value);
+  const right = caseless ? literal.toLowerCase() : literal;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Converts a basicsearch like pattern ('%' any run, '_' one character, '\' escape) to a RegExp
+ * @param pattern Like pattern
+ * @param caseless Whether matching ignores case
+ * @returns Anchored regular expression
+ */
+function likeToRegExp(pattern: string, caseless: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '%') {
+      source += '.*';
+    } else if (char === '_') {
+      source += '.';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, caseless ? 'is' : 's');
+}
+
+/**
+ * Evaluates a basicsearch where expression against a file
+ * List properties (tags, folders) match if any entry matches
+ * @param element Expression element
+ * @param file Candidate file
+ * @returns True if the file matches
+ */
+function evaluateExpression(element: Element, file: EagleWebDAVFile): boolean {
+  const operator = element.localName;
+
+  if (operator === 'and') {
+    return getChildElements(element).every(child => evaluateExpression(child, file));
+  }
+  if (operator === 'or') {
+    return getChildElements(element).some(child => evaluateExpression(child, file));
+  }
+  if (operator === 'not') {
+    return !evaluateExpression(getChildElements(element)[0], file);
+  }
+  if (operator === 'is-collection') {
+    // Search results are always files
+    return false;
+  }
+
+  const property = getOperandProperty(element);
+  if (!property) {
+    return false;
+  }
+
+  const raw = property.get(file);
+  if (operator === 'is-defined') {
+    return raw !== undefined && raw !== null && raw !== '';
+  }
+
+  // String comparisons are caseless unless the client asks otherwise
+  const literal = getOperandLiteral(element) || '';
+  const caseless = element.getAttribute('caseless') !== 'no';
+  const values: PropertyValue[] = Array.isArray(raw) ? raw : [raw];
+  const type = property.type === 'list' ? 'string' : property.type;
+
+  return values.some(value => {
+    if (operator === 'like') {
+      return value !== undefined && value !== null && likeToRegExp(literal, caseless).test(String(value));
+    }
+    const result = compareValue(type, value, literal, caseless);
+    if (isNaN(result)) return false;
+    switch (operator) {
+      case 'eq': return result === 0;
+      case 'lt': return result < 0;
+      case 'lte': return result <= 0;
+      case 'gt': return result > 0;
+      default: return result >= 0;
+    }
+  });
+}
+
+/**
+ * Derives an eagle.item.get query from the top-level conjuncts of a where clause
+ * Only narrows the candidate set; every result is still checked with evaluateExpression
+ * @param where Where expression
+ * @returns Query options for eagle.item.get
+ */
+function getPushdownFilter(where: Element | null): EagleItemFilter {
+  const filter: EagleItemFilter = {};
+  if (!where) {
+    return filter;
+  }
+
+  const conjuncts = where.localName === 'and' ? getChildElements(where) : [where];
+  for (const conjunct of conjuncts) {
+    if (conjunct.localName !== 'eq') continue;
+    const [prop] = getChildElements(getDAVChild(conjunct, 'prop') || conjunct);
+    const literal = (getDAVChild(conjunct, 'literal')?.textContent || '').trim();
+    if (!prop || !literal || prop.namespaceURI !== EAGLE_NAMESPACE) continue;
+
+    if (prop.localName === 'tags') {
+      filter.tags = [...(filter.tags || []), literal];
+    } else if (prop.localName === 'folders') {
+      filter.folders = [...(filter.folders || []), literal];
+    } else if (prop.localName === 'star' && /^\d$/.test(literal)) {
+      filter.rating = parseInt(literal, 10);
+    }
+  }
+  return filter;
+}
+
+/**
+ * Collects the candidate files for a search scope
+ * The root and the root containers search the whole library; any other
+ * collection searches the files it lists
+ * @param scopePath Decoded scope pathname
+ * @param filter Query options pushed down to eagle.item.get
+ * @returns Candidate files, or null if the scope does not exist
+ */
+async function getScopeItems(scopePath: string, filter: EagleItemFilter): Promise<EagleWebDAVFile[] | null> {
+  const { route, segments } = parseWebDAVPath(scopePath);
+  if (segments.length === 0) {
+    return getItemsByFilter(filter);
+  }
+  if (!route) {
+    return null;
+  }
+
+  const collection = await resolveCollection(route, segments);
+  return collection ? collection.items.filter(item => 'size' in item && item.size !== undefined) : null;
+}
+
+/**
+ * Converts a property value to a comparable sort key
+ * @param type Property type
+ * @param value Property value
+ * @returns Timestamp or number (0 if missing) for dates and numbers, lowercase text otherwise
+ */
+function getSortKey(type: PropertyType, value: PropertyValue | string[]): number | string {
+  if (type === 'date') {
+    return value instanceof Date ? value.getTime() : new Date(String(value)).getTime();
+  }
+  if (type === 'number') {
+    return typeof value === 'number' ? value : 0;
+  }
+  return String(value ?? '').toLowerCase();
+}
+
+/**
+ * Sorts files by the orderby properties of a request
+ * @param items Matching files
+ * @param orderBy Sort keys in priority order
+ * @returns Sorted files
+ */
+function sortResults(items: EagleWebDAVFile[], orderBy: SearchOrder[]): EagleWebDAVFile[] {
+  const keys = orderBy
+    .map(order => ({ order, property: SEARCHABLE_PROPERTIES[`${order.namespace}|${order.name}`] }))
+    .filter(key => key.property);
+  if (keys.length === 0) {
+    return items;
+  }
+
+  return [...items].sort((a, b) => {
+    for (const { order, property } of keys) {
+      const left = getSortKey(property.type, property.get(a));
+      const right = getSortKey(property.type, property.get(b));
+      if (left !== right) {
+        const result = left < right ? -1 : 1;
+        return order.descending ? -result : result;
+      }
+    }
+    return 0;
+  });
+}
+
+/**
+ * Handles WebDAV SEARCH requests (RFC 5323)
+ * Returns a multistatus of matching files, addressed through /files like /allItems
+ * @param pathname Request pathname (scope hrefs are resolved against it)
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ * @param sendXMLResponse XML response sending function
+ */
+export async function handleSEARCH(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void,
+  sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void
+): Promise<void> {
+  const body = await readRequestBody(req);
+  const request = parseSearchBody(body);
+
+  if (request === 'unsupported') {
+    sendResponse(res, 422, { error: 'Only the DAV:basicsearch grammar is supported' });
+    return;
+  }
+  if (!request) {
+    sendResponse(res, 400, { error: 'Invalid SEARCH request body' });
+    return;
+  }
+
+  console.log(`[DEBUG] SEARCH - Path: ${pathname}, Scopes: ${request.scopes.length}`);
+
+  const problem = request.where ? findUnsupportedExpression(request.where) : null;
+  if (problem) {
+    sendResponse(res, 422, { error: problem });
+    return;
+  }
+
+  const filter = getPushdownFilter(request.where);
+  const matches = new Map<string, EagleWebDAVFile>();
+
+  for (const scope of request.scopes) {
+    const scopePath = recursiveDecodeURI(url.parse(url.resolve(pathname, scope)).pathname || '/');
+    const items = await getScopeItems(scopePath, filter);
+    if (!items) {
+      sendResponse(res, 400, { error: `Search scope not found: ${scope}` });
+      return;
+    }
+
+    for (const item of items) {
+      if (!matches.has(item.id) && (!request.where || evaluateExpression(request.where, item))) {
+        matches.set(item.id, item);
+      }
+    }
+  }
+
+  let results = sortResults(Array.from(matches.values()), request.orderBy);
+  if (request.limit !== undefined && request.limit >= 0) {
+    results = results.slice(0, request.limit);
+  }
+
+  console.log(`[DEBUG] SEARCH matched ${results.length} items`);
+  sendXMLResponse(res, 207, applyPropfindRequest(generateSearchResultsXML(results), request.select));
+}
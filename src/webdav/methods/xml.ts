@@ -0,0 +1,111 @@
+/**
+ * XML generation utilities for WebDAV methods
+ */
+
+import { EagleWebDAVFile } from '../types';
+import { EAGLE_NAMESPACE, escapeXML, generateHref, getXMLDeclaration, getMultistatusOpen, getMultistatusClose, getResponseOpen, getResponseClose, getPropstatOpen, getPropstatClose, getPropOpen, getPropClose, getSuccessStatus, generateFileResourceType, generateContentLength, generateContentType, generateDisplayName, generateLastModified, generateETagProperty, generateEagleProperties } from '../xmlUtils';
+import { getItemLockKey } from '../locks/lockManager';
+import { generateLockProperties } from '../locks/xml';
+
+/**
+ * Result of a single property update
+ */
+export interface PropertyResult {
+  namespace: string;
+  name: string;
+  status: number;
+  description?: string;
+}
+
+const STATUS_TEXT: { [status: number]: string } = {
+  200: 'OK',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  424: 'Failed Dependency'
+};
+
+/**
+ * Generates an empty property element, declaring its namespace where needed
+ * @param namespace Property namespace URI
+ * @param name Property local name
+ * @returns Property XML element
+ */
+export function generateEmptyPropertyElement(namespace: string, name: string): string {
+  if (namespace === 'DAV:') {
+    return `        <D:${name}/>\n`;
+  }
+  if (namespace === EAGLE_NAMESPACE) {
+    return `        <eagle:${name}/>\n`;
+  }
+  return `        <X:${name} xmlns:X="${escapeXML(namespace)}"/>\n`;
+}
+
+/**
+ * Generates the 207 multistatus body for a PROPPATCH request
+ * Properties are grouped into one propstat per status code
+ * @param requestPath The request path
+ * @param results Per-property results
+ * @returns WebDAV multistatus XML
+ */
+export function generatePropPatchXML(requestPath: string, results: PropertyResult[]): string {
+  let xml = getXMLDeclaration();
+  xml += getMultistatusOpen();
+  xml += getResponseOpen();
+  xml += generateHref(requestPath);
+
+  const statuses = Array.from(new Set(results.map(result => result.status)));
+  for (const status of statuses) {
+    const group = results.filter(result => result.status === status);
+    xml += getPropstatOpen();
+    xml += getPropOpen();
+    for (const result of group) {
+      xml += generateEmptyPropertyElement(result.namespace, result.name);
+    }
+    xml += getPropClose();
+    xml += `      <D:status>HTTP/1.1 ${status} ${STATUS_TEXT[status] || ''}</D:status>\n`;
+    const description = group.find(result => result.description)?.description;
+    if (description) {
+      xml += `      <D:responsedescription>${escapeXML(description)}</D:responsedescription>\n`;
+    }
+    xml += getPropstatClose();
+  }
+
+  xml += getResponseClose();
+  xml += getMultistatusClose();
+  return xml;
+}
+
+/**
+ * Generates the 207 multistatus body for a SEARCH request
+ * Files are addressed through /files like the allItems listing
+ * @param items Matching files
+ * @returns WebDAV multistatus XML
+ */
+export function generateSearchResultsXML(items: EagleWebDAVFile[]): string {
+  let xml = getXMLDeclaration();
+  xml += getMultistatusOpen();
+
+  for (const item of items) {
+    const displayName = item.name + (item.ext ? `.${item.ext}` : '');
+    xml += getResponseOpen();
+    xml += generateHref(`/files/${item.id}/${displayName}`);
+    xml += getPropstatOpen();
+    xml += getPropOpen();
+    xml += generateFileResourceType();
+    xml += generateContentLength(item.size || 0);
+    xml += generateContentType(item.mimeType || 'application/octet-stream');
+    xml += generateDisplayName(displayName);
+    xml += generateLastModified(item.lastModified || new Date());
+    xml += generateETagProperty(item.etag);
+    xml += generateEagleProperties(item);
+    xml += generateLockProperties(getItemLockKey(item.id));
+    xml += getPropClose();
+    xml += getSuccessStatus();
+    xml += getPropstatClose();
+    xml += getResponseClose();
+  }
+
+  xml += getMultistatusClose();
+  return xml;
+}
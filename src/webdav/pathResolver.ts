@@ -0,0 +1,365 @@
+/**
+ * Path resolution utilities for WebDAV server
+ * Maps incoming WebDAV paths onto Eagle folders, tags and items
+ */
+
+import { EagleWebDAVFile } from './types';
+import { findEagleFolderByName, findEagleFolderByPath, toThumbnailFile, getAllEagleItems, getFileById, getFolderByName, getFolderByPath, getItemsByFilter, getItemsByTag } from './eagleUtils';
+import { resolveSmartPath } from './smartFilters';
+import { getAllItemsShard } from './allItemsShards';
+import { getTimelineBuckets, getTimelineItems } from './timeline';
+import { getFileTypeItems } from './fileTypes';
+import { getColorBuckets, getColorItems } from './colorIndex';
+import { getFileName, withFileNames, withUniqueNames } from './fileNames';
+import { getRatingItems } from './ratings';
+import { getTagGroup, isTagInGroup } from './tagGroups';
+import { createSidecarFile, parseSidecarName } from './sidecars';
+import { recursiveDecodeURI } from './xmlUtils';
+
+/**
+ * Root containers that map onto Eagle data
+ */
+export type WebDAVRoute = 'allItems' | 'folders' | 'hierarchy' | 'tags' | 'files' | 'thumbnails' | 'smart' | 'search' | 'timeline' | 'types' | 'colors' | 'ratings' | 'tagGroups';
+
+/**
+ * A WebDAV path split into its route and decoded segments
+ */
+export interface ParsedWebDAVPath {
+  route: WebDAVRoute | null;
+  segments: string[];
+}
+
+/**
+ * A resolved WebDAV collection and the files it exposes
+ */
+export interface WebDAVCollection {
+  route: WebDAVRoute;
+  path: string;
+  folderId?: string;
+  tagName?: string;
+  items: EagleWebDAVFile[];
+}
+
+/**
+ * A resolved file together with the collection it was addressed through
+ */
+export interface ResolvedWebDAVFile {
+  collection: WebDAVCollection;
+  file: EagleWebDAVFile;
+}
+
+/**
+ * What a WebDAV path points at: a file, or a collection with the folder or tag it represents
+ */
+export type ResolvedWebDAVResource =
+  | { type: 'file'; file: EagleWebDAVFile }
+  | { type: 'collection'; folderId?: string; tagName?: string };
+
+const ROUTES: WebDAVRoute[] = ['allItems', 'folders', 'hierarchy', 'tags', 'files', 'thumbnails', 'smart', 'search', 'timeline', 'types', 'colors', 'ratings', 'tagGroups'];
+
+/**
+ * Routes mirrored under /thumbnails
+ */
+const THUMBNAIL_ROUTES: WebDAVRoute[] = ['hierarchy', 'tags'];
+
+/**
+ * Splits a request pathname into route and fully decoded segments
+ * @param pathname Request pathname (e.g. '/hierarchy/Brand/2024/logo.png')
+ * @returns Parsed path; route is null for the root or unknown containers
+ */
+export function parseWebDAVPath(pathname: string): ParsedWebDAVPath {
+  const parts = pathname.split('/').filter(part => part).map(part => recursiveDecodeURI(part));
+
+  if (parts.length === 0 || !ROUTES.includes(parts[0] as WebDAVRoute)) {
+    return { route: null, segments: parts };
+  }
+
+  return { route: parts[0] as WebDAVRoute, segments: parts.slice(1) };
+}
+
+/**
+ * Splits a filename into Eagle item name and extension
+ * @param filename Filename such as 'cover.final.png'
+ * @returns Name without extension and the extension (may be empty)
+ */
+export function splitFilename(filename: string): { name: string; ext: string } {
+  const dotIndex = filename.lastIndexOf('.');
+  if (dotIndex <= 0) {
+    return { name: filename, ext: '' };
+  }
+  return { name: filename.substring(0, dotIndex), ext: filename.substring(dotIndex + 1) };
+}
+
+/**
+ * Finds a file in a list of items by its exposed filename
+ * Tries an exact match first, then falls back to a case-insensitive match
+ * @param items Files of a collection
+ * @param filename Requested filename (decoded)
+ * @returns Matching file or null if not found
+ */
+export function findFileByName(items: EagleWebDAVFile[], filename: string): EagleWebDAVFile | null {
+  const files = items.filter(item => 'size' in item && item.size !== undefined);
+
+  for (const item of files) {
+    const itemName = item.name + (item.ext ? `.${item.ext}` : '');
+    if (itemName === filename || item.name === filename) {
+      return item;
+    }
+  }
+
+  const lowerFilename = filename.toLowerCase();
+  for (const item of files) {
+    const itemName = item.name + (item.ext ? `.${item.ext}` : '');
+    if (itemName.toLowerCase() === lowerFilename || item.name.toLowerCase() === lowerFilename) {
+      return item;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Finds the virtual metadata sidecar of a file in a list of items
+ * @param items Files of a collection
+ * @param filename Requested filename (decoded), e.g. 'logo.psd.xmp'
+ * @returns Sidecar file, or null if sidecar mode is off or no item matches
+ */
+function findSidecarFile(items: EagleWebDAVFile[], filename: string): EagleWebDAVFile | null {
+  const sidecar = parseSidecarName(filename);
+  if (!sidecar) return null;
+
+  const file = findFileByName(items, sidecar.baseName);
+  return file ? createSidecarFile(file, sidecar.kind) : null;
+}
+
+/**
+ * Finds a file or metadata sidecar in a collection by its exposed filename
+ * Real files win over sidecars, so an item that is itself an .xmp stays reachable
+ * @param items Files of a collection
+ * @param filename Requested filename (decoded)
+ * @returns Matching file or sidecar, or null if not found
+ */
+export function findCollectionFile(items: EagleWebDAVFile[], filename: string): EagleWebDAVFile | null {
+  return findFileByName(items, filename) || findSidecarFile(items, filename);
+}
+
+/**
+ * Resolves a collection from its route and decoded segments
+ * Files carry the names they are exposed under (see withFileNames)
+ * @param route Root container of the collection
+ * @param segments Decoded path segments below the root container
+ * @returns Resolved collection or null if it does not exist
+ */
+export async function resolveCollection(route: WebDAVRoute, segments: string[]): Promise<WebDAVCollection | null> {
+  const collection = await loadCollection(route, segments);
+  if (!collection) return null;
+
+  // Thumbnails are already named by the mirrored route
+  const items = route === 'thumbnails' ? withUniqueNames(collection.items) : withFileNames(collection.items, route);
+  return { ...collection, items };
+}
+
+/**
+ * Gets the path an item is listed under in a collection
+ * Used after writes, since the listed name can differ from the requested one
+ * (filename templates, '~<id>' suffixes of duplicates)
+ * @param route Root container of the collection
+ * @param segments Decoded path segments below the root container
+ * @param id The item ID
+ * @returns Decoded path of the item, or null if the collection does not list it
+ */
+export async function getCollectionFilePath(route: WebDAVRoute, segments: string[], id: string): Promise<string | null> {
+  const collection = await resolveCollection(route, segments);
+  const file = collection ? collection.items.find(item => item.id === id) : undefined;
+  return collection && file ? `${collection.path}/${getFileName(file)}` : null;
+}
+
+/**
+ * Loads the items of a collection from its route and decoded segments
+ * @param route Root container of the collection
+ * @param segments Decoded path segments below the root container
+ * @returns Collection with items as Eagle names them, or null if it does not exist
+ */
+async function loadCollection(route: WebDAVRoute, segments: string[]): Promise<WebDAVCollection | null> {
+  const path = '/' + [route, ...segments].join('/');
+
+  if (route === 'hierarchy' && segments.length > 0) {
+    const folder = await getFolderByPath('/' + segments.join('/'), false);
+    if (!folder) return null;
+    return { route, path, folderId: folder.id, items: folder.children as EagleWebDAVFile[] };
+  }
+
+  if (route === 'folders' && segments.length === 1) {
+    const folder = await getFolderByName(segments[0]);
+    if (!folder) return null;
+    return { route, path, folderId: folder.id, items: folder.children as EagleWebDAVFile[] };
+  }
+
+  if (route === 'tags' && segments.length === 1) {
+    const items = await getItemsByTag(segments[0]);
+    return { route, path, tagName: segments[0], items };
+  }
+
+  if (route === 'allItems' && segments.length === 0) {
+    const items = await getAllEagleItems();
+    return { route, path, items };
+  }
+
+  if (route === 'allItems' && segments.length === 1) {
+    // Subcollection of a large library (page, import month or first letter)
+    const items = await getAllItemsShard(segments[0]);
+    if (!items) return null;
+    return { route, path, items };
+  }
+
+  if (route === 'timeline' && segments.length === 3) {
+    // Items imported on /timeline/<year>/<month>/<day>
+    const items = await getTimelineItems(segments);
+    if (!items) return null;
+    return { route, path, items };
+  }
+
+  if (route === 'types' && segments.length === 1) {
+    // Extension (/types/psd) or MIME family (/types/@video)
+    const items = await getFileTypeItems(segments[0]);
+    if (!items) return null;
+    return { route, path, items };
+  }
+
+  if (route === 'tagGroups' && segments.length === 2) {
+    // Tag inside a tag group behaves like /tags/{tag}
+    if (!await isTagInGroup(segments[0], segments[1])) return null;
+    const items = await getItemsByTag(segments[1]);
+    return { route, path, tagName: segments[1], items };
+  }
+
+  if (route === 'ratings' && segments.length === 1) {
+    // Exact rating ('5') or minimum rating ('>=4')
+    const items = await getRatingItems(segments[0]);
+    if (!items) return null;
+    return { route, path, items };
+  }
+
+  if (route === 'colors') {
+    // Hue family, grid cell or '#rrggbb~tolerance' query
+    const items = await getColorItems(segments);
+    if (!items) return null;
+    return { route, path, items };
+  }
+
+  if (route === 'files' && segments.length === 1) {
+    const file = await getFileById(segments[0]);
+    if (!file) return null;
+    return { route, path, items: [file] };
+  }
+
+  if (route === 'smart') {
+    // Only smart folders backed by a query hold files; index collections do not
+    const node = await resolveSmartPath(segments);
+    if (!node || node.type !== 'filter') return null;
+    const items = await getItemsByFilter(node.filter);
+    return { route, path, items };
+  }
+
+  if (route === 'thumbnails' && THUMBNAIL_ROUTES.includes(segments[0] as WebDAVRoute)) {
+    // Same collection as the mirrored route, with files swapped for their thumbnails
+    const source = await resolveCollection(segments[0] as WebDAVRoute, segments.slice(1));
+    if (!source) return null;
+    const items = source.items
+      .map(item => toThumbnailFile(item))
+      .filter((item): item is EagleWebDAVFile => !!item);
+    return { route, path, items };
+  }
+
+  return null;
+}
+
+/**
+ * Resolves a file path to the Eagle item it exposes
+ * @param pathname Request pathname pointing at a file
+ * @returns Resolved file and its collection, or null if not found
+ */
+export async function resolveFile(pathname: string): Promise<ResolvedWebDAVFile | null> {
+  const { route, segments } = parseWebDAVPath(pathname);
+  if (!route) return null;
+
+  // /files/{id} and /files/{id}/{filename} both address the item by ID
+  if (route === 'files') {
+    if (segments.length === 0) return null;
+    const collection = await resolveCollection(route, segments.slice(0, 1));
+    if (!collection) return null;
+    // Listings of other routes link sidecars here under their own filename template,
+    // so any sidecar name stands for the item's sidecar
+    const isSidecar = segments.length === 2 && !findFileByName(collection.items, segments[1]);
+    const sidecar = isSidecar ? parseSidecarName(segments[1]) : null;
+    return { collection, file: sidecar ? createSidecarFile(collection.items[0], sidecar.kind) : collection.items[0] };
+  }
+
+  if (segments.length === 0) return null;
+
+  const filename = segments[segments.length - 1];
+  const collection = await resolveCollection(route, segments.slice(0, -1));
+  if (!collection) return null;
+
+  const file = findCollectionFile(collection.items, filename);
+  if (!file) return null;
+
+  return { collection, file };
+}
+
+/**
+ * Resolves any WebDAV path to the file or collection it points at
+ * Collections are resolved without loading their items
+ * @param pathname Request pathname
+ * @returns Resolved resource, or null if nothing exists at the path
+ */
+export async function resolveResource(pathname: string): Promise<ResolvedWebDAVResource | null> {
+  const { route, segments } = parseWebDAVPath(pathname);
+
+  if (segments.length === 0) {
+    // The root and the root containers always exist
+    return { type: 'collection' };
+  }
+  if (!route) return null;
+
+  const resolved = await resolveFile(pathname);
+  if (resolved) {
+    return { type: 'file', file: resolved.file };
+  }
+
+  if (route === 'hierarchy') {
+    const folder = await findEagleFolderByPath('/' + segments.join('/'));
+    if (folder) return { type: 'collection', folderId: folder.id };
+  } else if (route === 'folders' && segments.length === 1) {
+    const folder = await findEagleFolderByName(segments[0]);
+    if (folder) return { type: 'collection', folderId: folder.id };
+  } else if (route === 'tags' && segments.length === 1) {
+    return { type: 'collection', tagName: segments[0] };
+  } else if (route === 'allItems' && segments.length === 1) {
+    if (await getAllItemsShard(segments[0])) return { type: 'collection' };
+  } else if (route === 'timeline' && segments.length < 3) {
+    if (await getTimelineBuckets(segments)) return { type: 'collection' };
+  } else if (route === 'timeline' && segments.length === 3) {
+    if (await getTimelineItems(segments)) return { type: 'collection' };
+  } else if (route === 'types' && segments.length === 1) {
+    if (await getFileTypeItems(segments[0])) return { type: 'collection' };
+  } else if (route === 'tagGroups' && segments.length === 1) {
+    if (await getTagGroup(segments[0])) return { type: 'collection' };
+  } else if (route === 'tagGroups' && segments.length === 2) {
+    if (await isTagInGroup(segments[0], segments[1])) return { type: 'collection', tagName: segments[1] };
+  } else if (route === 'ratings' && segments.length === 1) {
+    if (await getRatingItems(segments[0])) return { type: 'collection' };
+  } else if (route === 'colors') {
+    if (await getColorBuckets(segments) || await getColorItems(segments)) return { type: 'collection' };
+  } else if (route === 'search') {
+    // Every query is a (possibly empty) result collection
+    return { type: 'collection' };
+  } else if (route === 'smart') {
+    if (await resolveSmartPath(segments)) return { type: 'collection' };
+  } else if (route === 'thumbnails' && THUMBNAIL_ROUTES.includes(segments[0] as WebDAVRoute)) {
+    const source = await resolveResource('/' + segments.join('/'));
+    if (source?.type === 'collection') return { type: 'collection' };
+  }
+
+  return null;
+}
@@ -0,0 +1,307 @@
+/**
+ * HTTP range utilities for WebDAV server
+ * Implements Range/If-Range handling (RFC 7233) and conditional requests for file downloads
+ */
+
+import fs from 'fs';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { evaluatePreconditions, getHeader, ResourceValidators } from './httpUtils';
+
+/**
+ * An inclusive byte range within a file
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Upper bound on ranges per request; larger range sets are ignored and the full file is sent
+ */
+const MAX_RANGES = 32;
+
+/**
+ * Parses a Range header against a file size
+ * Overlapping or adjacent ranges are coalesced
+ * @param header Raw Range header value (e.g. 'bytes=0-499,-500')
+ * @param size File size in bytes
+ * @returns Satisfiable ranges, 'unsatisfiable' if none can be served, or null to ignore the header
+ */
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange[] | 'unsatisfiable' | null {
+  if (!header) {
+    return null;
+  }
+
+  const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header);
+  if (!match) {
+    return null;
+  }
+
+  const specs = match[1].split(',').map(spec => spec.trim()).filter(spec => spec);
+  if (specs.length === 0 || specs.length > MAX_RANGES) {
+    return null;
+  }
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = /^(\d*)-(\d*)$/.exec(spec);
+    if (!parts || (!parts[1] && !parts[2])) {
+      // Syntactically invalid ranges make the whole header invalid
+      return null;
+    }
+
+    if (!parts[1]) {
+      // Suffix range: the last N bytes
+      const length = parseInt(parts[2], 10);
+      if (length > 0 && size > 0) {
+        ranges.push({ start: Math.max(0, size - length), end: size - 1 });
+      }
+      continue;
+    }
+
+    const start = parseInt(parts[1], 10);
+    const end = parts[2] ? parseInt(parts[2], 10) : size - 1;
+    if (parts[2] && end < start) {
+      return null;
+    }
+    if (start < size) {
+      ranges.push({ start, end: Math.min(end, size - 1) });
+    }
+  }
+
+  if (ranges.length === 0) {
+    return 'unsatisfiable';
+  }
+
+  return coalesceRanges(ranges);
+}
+
+/**
+ * Merges overlapping or adjacent ranges; keeps the requested order when none overlap
+ * @param ranges Satisfiable ranges
+ * @returns Ranges without overlaps
+ */
+function coalesceRanges(ranges: ByteRange[]): ByteRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const overlaps = sorted.some((range, index) => index > 0 && range.start <= sorted[index - 1].end + 1);
+  if (!overlaps) {
+    return ranges;
+  }
+
+  const merged: ByteRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Evaluates an If-Range header (RFC 7233 section 3.2)
+ * Entity tags must match strongly; dates must equal the last modification time
+ * @param header Raw If-Range header value
+ * @param validators Current file validators
+ * @returns True if the Range header should be honored
+ */
+export function isIfRangeSatisfied(header: string | undefined, validators: ResourceValidators): boolean {
+  if (!header) {
+    return true;
+  }
+
+  const value = header.trim();
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    return !!validators.etag && !value.startsWith('W/') && !validators.etag.startsWith('W/') && value === validators.etag;
+  }
+
+  const date = Date.parse(value);
+  if (isNaN(date) || validators.lastModified === undefined) {
+    return false;
+  }
+  const lastModified = new Date(validators.lastModified).getTime();
+  return Math.floor(lastModified / 1000) === Math.floor(date / 1000);
+}
+
+/**
+ * Determines which ranges of a file a GET or HEAD request asks for
+ * @param req HTTP request object (may be undefined)
+ * @param size File size in bytes
+ * @param validators Current file validators for If-Range
+ * @returns Requested ranges, 'unsatisfiable', or null for the full file
+ */
+export function getRequestedRanges(req: IncomingMessage | undefined, size: number, validators: ResourceValidators): ByteRange[] | 'unsatisfiable' | null {
+  if (!req || (req.method !== 'GET' && req.method !== 'HEAD') || !req.headers.range) {
+    return null;
+  }
+
+  if (!isIfRangeSatisfied(getHeader(req, 'if-range'), validators)) {
+    console.log(`[DEBUG] If-Range does not match, sending full content`);
+    return null;
+  }
+
+  return parseRangeHeader(req.headers.range, size);
+}
+
+/**
+ * Builds the part headers of a multipart/byteranges body
+ * @param ranges Ranges to send
+ * @param size File size in bytes
+ * @param contentType Content type of the file
+ * @param boundary Multipart boundary
+ * @returns Part headers, closing delimiter and total body length
+ */
+function buildMultipartLayout(ranges: ByteRange[], size: number, contentType: string, boundary: string): { headers: string[]; trailer: string; length: number } {
+  const headers = ranges.map((range, index) =>
+    `${index > 0 ? '\r\n' : ''}--${boundary}\r\n` +
+    `Content-Type: ${contentType}\r\n` +
+    `Content-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`
+  );
+  const trailer = `\r\n--${boundary}--\r\n`;
+  const length = headers.reduce((total, header, index) =>
+    total + Buffer.byteLength(header) + ranges[index].end - ranges[index].start + 1, 0) + Buffer.byteLength(trailer);
+  return { headers, trailer, length };
+}
+
+/**
+ * Streams a byte range of a file into the response without ending it
+ * @param filePath Absolute file path
+ * @param range Range to stream, or null for the whole file
+ * @param res HTTP response object
+ * @param onEnd Called once the range has been written
+ */
+function pipeRange(filePath: string, range: ByteRange | null, res: ServerResponse, onEnd: () => void): void {
+  const stream = fs.createReadStream(filePath, range ? { start: range.start, end: range.end } : {});
+
+  stream.on('error', (error: Error) => {
+    console.error(`[DEBUG] File streaming error for ${filePath}:`, error);
+    if (!res.headersSent) {
+      res.writeHead(500);
+      res.end('File streaming error');
+    } else {
+      res.destroy();
+    }
+  });
+
+  stream.on('end', onEnd);
+  stream.pipe(res, { end: false });
+}
+
+/**
+ * Sends a file as a full 200, a single-range 206, a multipart/byteranges 206 or a 416
+ * @param res HTTP response object
+ * @param filePath Absolute file path
+ * @param size File size in bytes
+ * @param contentType Content type of the file
+ * @param ranges Result of getRequestedRanges
+ * @param headOnly Send headers only (HEAD requests)
+ */
+export function sendFileRanges(
+  res: ServerResponse,
+  filePath: string,
+  size: number,
+  contentType: string,
+  ranges: ByteRange[] | 'unsatisfiable' | null,
+  headOnly: boolean = false
+): void {
+  res.setHeader('Accept-Ranges', 'bytes');
+
+  if (ranges === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${size}`);
+    res.writeHead(416);
+    res.end();
+    return;
+  }
+
+  if (!ranges) {
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Length', size);
+    res.writeHead(200);
+    if (headOnly) {
+      res.end();
+      return;
+    }
+    pipeRange(filePath, null, res, () => res.end());
+    return;
+  }
+
+  if (ranges.length === 1) {
+    const [range] = ranges;
+    console.log(`[DEBUG] Serving range ${range.start}-${range.end}/${size} of ${filePath}`);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+    res.writeHead(206);
+    if (headOnly) {
+      res.end();
+      return;
+    }
+    pipeRange(filePath, range, res, () => res.end());
+    return;
+  }
+
+  console.log(`[DEBUG] Serving ${ranges.length} ranges of ${filePath} as multipart/byteranges`);
+  const boundary = `eagle-webdav-${Date.now().toString(16)}${Math.random().toString(16).slice(2)}`;
+  const layout = buildMultipartLayout(ranges, size, contentType, boundary);
+  res.setHeader('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+  res.setHeader('Content-Length', layout.length);
+  res.writeHead(206);
+  if (headOnly) {
+    res.end();
+    return;
+  }
+
+  // Stream the parts one after another
+  const writePart = (index: number) => {
+    if (index === ranges.length) {
+      res.end(layout.trailer);
+      return;
+    }
+    res.write(layout.headers[index]);
+    pipeRange(filePath, ranges[index], res, () => writePart(index + 1));
+  };
+  writePart(0);
+}
+
+/**
+ * Serves a file for GET or HEAD, honoring conditional and Range headers
+ * Sends ETag and Last-Modified, answers 304/412 from the validators and
+ * otherwise falls through to sendFileRanges
+ * @param req HTTP request object (may be undefined)
+ * @param res HTTP response object
+ * @param filePath Absolute file path
+ * @param contentType Content type of the file
+ * @param validators ETag and last modification time of the file
+ * @param headOnly Send headers only (HEAD requests)
+ */
+export function serveFile(
+  req: IncomingMessage | undefined,
+  res: ServerResponse,
+  filePath: string,
+  contentType: string,
+  validators: ResourceValidators,
+  headOnly: boolean = false
+): void {
+  // Use the size on disk so byte ranges line up with the actual content
+  const size = fs.statSync(filePath).size;
+
+  if (validators.etag) {
+    res.setHeader('ETag', validators.etag);
+  }
+  if (validators.lastModified !== undefined) {
+    res.setHeader('Last-Modified', new Date(validators.lastModified).toUTCString());
+  }
+
+  const precondition = req ? evaluatePreconditions(req, validators) : null;
+  if (precondition) {
+    console.log(`[DEBUG] Conditional request for ${filePath} answered with ${precondition}`);
+    res.writeHead(precondition);
+    res.end();
+    return;
+  }
+
+  const ranges = getRequestedRanges(req, size, validators);
+  sendFileRanges(res, filePath, size, contentType, ranges, headOnly);
+}
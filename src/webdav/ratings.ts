@@ -0,0 +1,91 @@
+/**
+ * Rating index for the /ratings route
+ * Exposes exact star ratings (/ratings/0 ... /ratings/5) and cumulative
+ * views (/ratings/>=4) backed by rating queries on the library index
+ */
+
+import { getItemsByFilter } from './eagleUtils';
+import { EagleWebDAVFile } from './types';
+
+/**
+ * A rating collection below /ratings with its number of items
+ */
+export interface RatingBucket {
+  name: string;
+  count: number;
+}
+
+/**
+ * Star ratings Eagle supports (0 = unrated)
+ */
+const RATINGS = [0, 1, 2, 3, 4, 5];
+
+/**
+ * Lower bounds listed as cumulative '>=N' views
+ * ('>=0' would be the whole library and '>=5' equals '5')
+ */
+const CUMULATIVE_RATINGS = [1, 2, 3, 4];
+
+/**
+ * Parses a /ratings collection name
+ * @param name Collection name such as '5' or '>=4'
+ * @returns Lowest rating and whether higher ratings are included, or null if invalid
+ */
+function parseRatingName(name: string): { rating: number; orHigher: boolean } | null {
+  const match = /^(>=)?([0-5])$/.exec(name.trim());
+  if (!match) {
+    return null;
+  }
+  return { rating: parseInt(match[2], 10), orHigher: match[1] !== undefined };
+}
+
+/**
+ * Gets the items with exactly the given star rating
+ * @param rating Star rating (0-5)
+ * @returns Files with that rating
+ */
+async function getItemsWithRating(rating: number): Promise<EagleWebDAVFile[]> {
+  const items = await getItemsByFilter({ rating });
+  // Guard against the query ignoring a falsy rating of 0
+  return items.filter(file => (file.star || 0) === rating);
+}
+
+/**
+ * Lists the rating collections with their item counts
+ * @returns Exact ratings 0-5 followed by the cumulative '>=N' views
+ */
+export async function getRatingBuckets(): Promise<RatingBucket[]> {
+  const counts: number[] = [];
+  for (const rating of RATINGS) {
+    counts[rating] = (await getItemsWithRating(rating)).length;
+  }
+
+  const exact = RATINGS.map(rating => ({ name: String(rating), count: counts[rating] }));
+  const cumulative = CUMULATIVE_RATINGS.map(rating => ({
+    name: `>=${rating}`,
+    count: counts.slice(rating).reduce((total, count) => total + count, 0)
+  }));
+  return [...exact, ...cumulative];
+}
+
+/**
+ * Gets the items of a rating collection
+ * @param name Collection name such as '5' or '>=4'
+ * @returns Matching files (highest rated first for '>=N'), or null if the name is not a rating collection
+ */
+export async function getRatingItems(name: string): Promise<EagleWebDAVFile[] | null> {
+  const parsed = parseRatingName(name);
+  if (!parsed) {
+    return null;
+  }
+
+  if (!parsed.orHigher) {
+    return getItemsWithRating(parsed.rating);
+  }
+
+  const items: EagleWebDAVFile[] = [];
+  for (const rating of RATINGS.filter(value => value >= parsed.rating).reverse()) {
+    items.push(...await getItemsWithRating(rating));
+  }
+  return items;
+}
@@ -3,8 +3,12 @@
  * Handles all item-related requests and operations with performance optimization
  */
 
-import { getAllEagleItems, getFileById } from '../../eagleUtils';
-import { generateAllItemsListXML } from './xml';
+import { getAllItemsShard, getAllItemsShards } from '../../allItemsShards';
+import { getAllEagleItems } from '../../eagleUtils';
+import { withFileNames } from '../../fileNames';
+import { findCollectionFile, parseWebDAVPath, resolveFile } from '../../pathResolver';
+import { withSidecarFiles } from '../../sidecars';
+import { generateAllItemsListXML, generateAllItemsShardsXML } from './xml';
 
 /**
  * Handles GET requests for allItems routes - including file serving
@@ -19,9 +23,22 @@ export async function handleAllItemsGET(
   sendResponse: (res: any, status: number, data: any) => void,
   serveFileContent: (file: any, res: any) => Promise<void>
 ): Promise<void> {
+  const { segments } = parseWebDAVPath(pathname);
+
   if (pathname === '/allItems' || pathname === '/allItems/') {
     // AllItems container - not allowed for GET (collections can't be downloaded)
     sendResponse(res, 405, { error: 'Method not allowed on collections' });
+  } else if (segments.length > 1) {
+    // File within a subcollection of a large library: /allItems/{page}/{filename}
+    const resolved = await resolveFile(pathname);
+    if (!resolved) {
+      sendResponse(res, 404, { error: 'File not found' });
+      return;
+    }
+    await serveFileContent(resolved.file, res);
+  } else if (pathname.endsWith('/') || await getAllItemsShard(segments[0])) {
+    // Subcollection of a large library - not allowed for GET
+    sendResponse(res, 405, { error: 'Method not allowed on collections' });
   } else if (pathname.startsWith('/allItems/')) {
     // File within allItems: /allItems/{filename}
     const filename = decodeURIComponent(pathname.substring(10)); // Remove '/allItems/' prefix
@@ -58,27 +75,8 @@ async function handleAllItemsFileRequest(
       return;
     }
     
-    // Look for the file by matching the filename (with or without extension)
-    let targetFile = null;
-    for (const item of items) {
-      // Check if it's a file (has size property) vs folder (has children property)
-      if ('size' in item && item.size !== undefined) { // It's a file
-        // Check exact match first
-        const itemExt = 'ext' in item ? item.ext : '';
-        const itemName = item.name + (itemExt ? `.${itemExt}` : '');
-        if (itemName === filename || item.name === filename) {
-          targetFile = item;
-          break;
-        }
-        
-        // Also try case-insensitive match
-        if (itemName.toLowerCase() === filename.toLowerCase() || 
-            item.name.toLowerCase() === filename.toLowerCase()) {
-          targetFile = item;
-          break;
-        }
-      }
-    }
+    // Look for the file by its unique exposed name
+    const targetFile = findCollectionFile(withFileNames(items, 'allItems'), filename);
     
     if (!targetFile) {
       console.log(`[DEBUG] File "${filename}" not found in allItems`);
@@ -88,16 +86,8 @@ async function handleAllItemsFileRequest(
     
     console.log(`[DEBUG] Found file "${filename}" with ID "${targetFile.id}" in allItems`);
     
-    // Get the full file object with path information
-    const file = await getFileById(targetFile.id);
-    if (!file) {
-      console.log(`[DEBUG] Could not get file details for ID "${targetFile.id}"`);
-      sendResponse(res, 404, { error: 'File not found' });
-      return;
-    }
-    
     // Serve the file
-    await serveFileContent(file, res);
+    await serveFileContent(targetFile, res);
   } catch (error) {
     console.error('[DEBUG] Error handling allItems file request:', error);
     sendResponse(res, 500, { error: 'Internal server error' });
@@ -120,37 +110,37 @@ export async function handleAllItemsPROPFIND(
   generateSingleFilePROPFIND?: (requestPath: string, file: any) => string
 ): Promise<void> {
   const depth = req.headers.depth || '1';
+  const { segments } = parseWebDAVPath(pathname);
+  const shardItems = segments.length === 1 ? await getAllItemsShard(segments[0]) : null;
   
   if (pathname === '/allItems' || pathname === '/allItems/') {
-    // AllItems container - show all Eagle items with count-based logic
-    const items = await getAllEagleItems();
-    const xmlResponse = generateAllItemsListXML('/allItems', items, depth === '0');
-    res.writeHead(207, {
-      'Content-Type': 'application/xml; charset=utf-8',
-      'Access-Control-Allow-Origin': '*'
-    });
-    res.end(xmlResponse);
+    // AllItems container - large libraries are split into subcollections
+    const shards = await getAllItemsShards();
+    const xmlResponse = shards
+      ? generateAllItemsShardsXML('/allItems', shards, depth === '0')
+      : generateAllItemsListXML('/allItems', withSidecarFiles(withFileNames(await getAllEagleItems(), 'allItems')), depth === '0');
+    sendXMLResponse(res, 207, xmlResponse);
+  } else if (shardItems) {
+    // Subcollection of a large library: /allItems/{page}/
+    const xmlResponse = generateAllItemsListXML(pathname, withSidecarFiles(withFileNames(shardItems, 'allItems')), depth === '0', segments[0]);
+    sendXMLResponse(res, 207, xmlResponse);
+  } else if (segments.length > 1 && generateSingleFilePROPFIND) {
+    // Individual file PROPFIND within a subcollection
+    const resolved = await resolveFile(pathname);
+    if (resolved) {
+      sendXMLResponse(res, 207, generateSingleFilePROPFIND(pathname, resolved.file));
+    } else {
+      const errorXML = '<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
+      sendXMLResponse(res, 404, errorXML);
+    }
   } else if (pathname.startsWith('/allItems/') && generateSingleFilePROPFIND) {
     // Individual file PROPFIND in allItems
     const filename = decodeURIComponent(pathname.substring(10)); // Remove '/allItems/' prefix
     console.log(`[DEBUG] File PROPFIND in allItems - Filename: "${filename}"`);
     
-    // Get all items and find the file
+    // Get all items and find the file by its unique name
     const items = await getAllEagleItems();
-    let targetFile = null;
-    
-    for (const item of items) {
-      if ('size' in item && item.size !== undefined) { // It's a file
-        const itemExt = 'ext' in item ? item.ext : '';
-        const itemName = item.name + (itemExt ? `.${itemExt}` : '');
-        if (itemName === filename || item.name === filename ||
-            itemName.toLowerCase() === filename.toLowerCase() || 
-            item.name.toLowerCase() === filename.toLowerCase()) {
-          targetFile = item;
-          break;
-        }
-      }
-    }
+    const targetFile = findCollectionFile(withFileNames(items, 'allItems'), filename);
     
     if (!targetFile) {
       console.log(`[DEBUG] File "${filename}" not found in allItems for PROPFIND`);
@@ -158,15 +148,8 @@ export async function handleAllItemsPROPFIND(
       sendXMLResponse(res, 404, errorXML);
     } else {
       console.log(`[DEBUG] Found file "${filename}" for PROPFIND, generating response`);
-      // Get full file object
-      const file = await getFileById(targetFile.id);
-      if (file) {
-        const xml = generateSingleFilePROPFIND(pathname, file);
-        sendXMLResponse(res, 207, xml);
-      } else {
-        const errorXML = '<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
-        sendXMLResponse(res, 404, errorXML);
-      }
+      const xml = generateSingleFilePROPFIND(pathname, targetFile);
+      sendXMLResponse(res, 207, xml);
     }
   } else {
     const errorXML = '<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
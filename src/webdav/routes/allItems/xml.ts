@@ -2,6 +2,7 @@
  * XML generation utilities for allItems routes
  */
 
+import { AllItemsShard } from '../../allItemsShards';
 import { EagleWebDAVFile } from '../../types';
 import {
   getXMLDeclaration,
@@ -20,17 +21,22 @@ import {
   generateCollectionResourceType,
   generateFileResourceType,
   generateContentLength,
-  generateContentType
+  generateContentType,
+  generateETagProperty,
+  generateEagleProperties
 } from '../../xmlUtils';
+import { getItemLockKey } from '../../locks/lockManager';
+import { generateLockProperties } from '../../locks/xml';
 
 /**
  * Generates WebDAV PROPFIND XML response for allItems listings
  * @param pathname The requested path
  * @param items Array of items to include in the response
  * @param isDepthZero Whether this is a depth 0 request
+ * @param listName Display name of the listing itself
  * @returns Formatted XML string for WebDAV PROPFIND response
  */
-export function generateAllItemsListXML(pathname: string, items: EagleWebDAVFile[], isDepthZero: boolean): string {
+export function generateAllItemsListXML(pathname: string, items: EagleWebDAVFile[], isDepthZero: boolean, listName: string = 'All Items'): string {
   let xml = getXMLDeclaration();
   xml += getMultistatusOpen();
   
@@ -40,7 +46,7 @@ export function generateAllItemsListXML(pathname: string, items: EagleWebDAVFile
   xml += getPropstatOpen();
   xml += getPropOpen();
   xml += generateCollectionResourceType();
-  xml += generateDisplayName('All Items');
+  xml += generateDisplayName(listName);
   xml += generateLastModified(new Date());
   xml += getPropClose();
   xml += getSuccessStatus();
@@ -71,6 +77,9 @@ export function generateAllItemsListXML(pathname: string, items: EagleWebDAVFile
       xml += generateContentType(item.mimeType || 'application/octet-stream');
       xml += generateDisplayName(displayName);
       xml += generateLastModified(item.lastModified || new Date());
+      xml += generateETagProperty(item.etag);
+      xml += generateEagleProperties(item);
+      xml += generateLockProperties(getItemLockKey(item.id));
       xml += getPropClose();
       xml += getSuccessStatus();
       xml += getPropstatClose();
@@ -130,6 +139,9 @@ export function generateAllItemsContentXML(pathname: string, items: EagleWebDAVF
       xml += generateContentType(item.mimeType || 'application/octet-stream');
       xml += generateDisplayName(displayName);
       xml += generateLastModified(item.lastModified || new Date());
+      xml += generateETagProperty(item.etag);
+      xml += generateEagleProperties(item);
+      xml += generateLockProperties(getItemLockKey(item.id));
       xml += getPropClose();
       xml += getSuccessStatus();
       xml += getPropstatClose();
@@ -139,4 +151,49 @@ export function generateAllItemsContentXML(pathname: string, items: EagleWebDAVF
   
   xml += getMultistatusClose();
   return xml;
-}
\ No newline at end of file
+}
+
+/**
+ * Generates WebDAV PROPFIND XML for /allItems in a large library
+ * Lists one subcollection per page, import month or first letter
+ * @param pathname The requested path
+ * @param shards Subcollections of /allItems
+ * @param isDepthZero Whether this is a depth 0 request
+ * @returns Formatted XML string for WebDAV PROPFIND response
+ */
+export function generateAllItemsShardsXML(pathname: string, shards: AllItemsShard[], isDepthZero: boolean): string {
+  let xml = getXMLDeclaration();
+  xml += getMultistatusOpen();
+  
+  // Add the requested resource itself (the current directory)
+  xml += getResponseOpen();
+  xml += generateHref(pathname);
+  xml += getPropstatOpen();
+  xml += getPropOpen();
+  xml += generateCollectionResourceType();
+  xml += generateDisplayName('All Items');
+  xml += generateLastModified(new Date());
+  xml += getPropClose();
+  xml += getSuccessStatus();
+  xml += getPropstatClose();
+  xml += getResponseClose();
+  
+  if (!isDepthZero) {
+    for (const shard of shards) {
+      xml += getResponseOpen();
+      xml += generateHref(`/allItems/${shard.name}/`);
+      xml += getPropstatOpen();
+      xml += getPropOpen();
+      xml += generateCollectionResourceType();
+      xml += generateDisplayName(shard.name);
+      xml += generateLastModified(new Date());
+      xml += getPropClose();
+      xml += getSuccessStatus();
+      xml += getPropstatClose();
+      xml += getResponseClose();
+    }
+  }
+  
+  xml += getMultistatusClose();
+  return xml;
+}
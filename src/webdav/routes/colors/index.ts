@@ -0,0 +1,97 @@
+/**
+ * Colors route handler for WebDAV server
+ * Browses items by dominant palette color: hue families (/colors/blue/), a coarse
+ * HEX grid (/colors/grid/55aaff/) and tolerance queries (/colors/%23ff8800~20/)
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { getColorBuckets, getColorItems } from '../../colorIndex';
+import { withFileNames } from '../../fileNames';
+import { parseWebDAVPath, resolveFile } from '../../pathResolver';
+import { withSidecarFiles } from '../../sidecars';
+import { EagleWebDAVFile } from '../../types';
+import { generateIndexContentXML } from '../hierarchy/xml';
+import { generateColorsListXML } from './xml';
+
+/**
+ * Sends a WebDAV 404 error
+ * @param res HTTP response object
+ * @param sendXMLResponse XML response sending function
+ */
+function sendNotFound(res: ServerResponse, sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void): void {
+  const errorXML = '<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
+  sendXMLResponse(res, 404, errorXML);
+}
+
+/**
+ * Handles GET requests for colors routes
+ * @param pathname Request pathname
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ * @param serveFileContent File serving function
+ */
+export async function handleColorsGET(
+  pathname: string,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void,
+  serveFileContent: (file: EagleWebDAVFile, res: ServerResponse) => Promise<void>
+): Promise<void> {
+  const { segments } = parseWebDAVPath(pathname);
+  if (segments.length === 0 || await getColorBuckets(segments) || await getColorItems(segments)) {
+    // Color collections - not allowed for GET
+    sendResponse(res, 405, { error: 'Method not allowed on collections' });
+    return;
+  }
+
+  const resolved = await resolveFile(pathname);
+  if (!resolved) {
+    console.log(`[DEBUG] File not found in colors: ${pathname}`);
+    sendResponse(res, 404, { error: 'File not found' });
+    return;
+  }
+
+  await serveFileContent(resolved.file, res);
+}
+
+/**
+ * Handles PROPFIND requests for colors routes
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendXMLResponse XML response sending function
+ * @param generateSingleFilePROPFIND Single file PROPFIND generator
+ */
+export async function handleColorsPROPFIND(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void,
+  generateSingleFilePROPFIND: (requestPath: string, file: EagleWebDAVFile) => string
+): Promise<void> {
+  const isDepthZero = (req.headers.depth || '1') === '0';
+  const { segments } = parseWebDAVPath(pathname);
+  // '#' must stay encoded in hrefs, so build the base path from encoded segments
+  const basePath = '/' + ['colors', ...segments.map(segment => encodeURIComponent(segment))].join('/') + '/';
+  const displayName = segments.length > 0 ? segments[segments.length - 1] : 'Colors';
+
+  console.log(`[DEBUG] Colors PROPFIND - Path: ${pathname}, Segments:`, segments);
+
+  const buckets = await getColorBuckets(segments);
+  if (buckets) {
+    sendXMLResponse(res, 207, generateColorsListXML(basePath, displayName, buckets, isDepthZero));
+    return;
+  }
+
+  const items = await getColorItems(segments);
+  if (items) {
+    sendXMLResponse(res, 207, generateIndexContentXML(basePath, withSidecarFiles(withFileNames(items, 'colors')), isDepthZero, displayName));
+    return;
+  }
+
+  const resolved = segments.length > 1 ? await resolveFile(pathname) : null;
+  if (!resolved) {
+    sendNotFound(res, sendXMLResponse);
+    return;
+  }
+  sendXMLResponse(res, 207, generateSingleFilePROPFIND(pathname, resolved.file));
+}
@@ -3,7 +3,10 @@
  * Handles direct file access by ID
  */
 
-import { getFileById } from '../../eagleUtils';
+import fs from 'fs';
+import type { IncomingMessage } from 'http';
+import { resolveFile } from '../../pathResolver';
+import { serveFile } from '../../rangeUtils';
 
 /**
  * Handles GET requests for file routes
@@ -25,7 +28,8 @@ export async function handleFilesGET(
     const id = pathParts[0]; // First part is always the ID
     console.log(`[DEBUG] GET file request - Full pathname: "${pathname}", pathParts: ${JSON.stringify(pathParts)}, extracted ID: "${id}"`);
     
-    const file = await getFileById(id);
+    // Resolves the item, or its metadata sidecar when the filename names one
+    const file = (await resolveFile(pathname))?.file;
     if (!file) {
       console.log(`[DEBUG] File not found for ID: "${id}"`);
       sendResponse(res, 404, { error: 'File not found' });
@@ -61,7 +65,7 @@ export async function handleFilesPROPFIND(
     const id = pathParts[0]; // First part is always the ID
     console.log(`[DEBUG] File PROPFIND - Full path: ${pathname}, Extracted ID: ${id}`);
     
-    const file = await getFileById(id);
+    const file = (await resolveFile(pathname))?.file;
     if (!file) {
       console.log(`[DEBUG] File not found for ID: ${id}`);
       const errorXML = '<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
@@ -80,31 +84,39 @@ export async function handleFilesPROPFIND(
 
 /**
  * Handles HEAD requests for file routes
+ * Reports the same status and headers a GET with the same conditional and Range headers would
  * @param pathname Request pathname
+ * @param req HTTP request object
  * @param res HTTP response object
  */
 export async function handleFilesHEAD(
   pathname: string,
+  req: IncomingMessage,
   res: any
 ): Promise<void> {
   if (pathname.startsWith('/files/')) {
     // File HEAD request - just return headers without content
     // Handle both /files/{id} and /files/{id}/{filename} formats
-    const pathParts = pathname.substring(7).replace(/\/$/, '').split('/');
-    const id = pathParts[0]; // First part is always the ID
-    const file = await getFileById(id);
+    const file = (await resolveFile(pathname))?.file;
     if (!file) {
       res.writeHead(404);
       res.end();
       return;
     }
     
-    res.setHeader('Content-Type', file.mimeType || 'application/octet-stream');
+    const mimeType = file.mimeType || 'application/octet-stream';
+    if (file.path && fs.existsSync(file.path)) {
+      serveFile(req, res, file.path, mimeType, { etag: file.etag, lastModified: file.lastModified }, true);
+      return;
+    }
+    
+    res.setHeader('Content-Type', mimeType);
     res.setHeader('Content-Length', file.size || 0);
+    res.setHeader('Accept-Ranges', 'bytes');
     res.writeHead(200);
     res.end();
   } else {
     res.writeHead(404);
     res.end();
   }
-}
\ No newline at end of file
+}
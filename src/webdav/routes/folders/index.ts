@@ -3,7 +3,11 @@
  * Handles all folder-related requests and operations
  */
 
-import { getAllEagleFolders, getFolderByName, getFileById } from '../../eagleUtils';
+import { getAllEagleFolders, getFolderByName } from '../../eagleUtils';
+import { withFileNames } from '../../fileNames';
+import { findCollectionFile, resolveFile } from '../../pathResolver';
+import { withSidecarFiles } from '../../sidecars';
+import { EagleWebDAVFile } from '../../types';
 import { generateFolderListXML, generateFolderContentXML } from './xml';
 
 /**
@@ -61,7 +65,7 @@ async function handleFolderFileRequest(
     console.log(`[DEBUG] Looking for file "${filename}" in folder "${folderName}"`);
     
     // Check if this is a reserved container name (should not be accessed via /folders/)
-    const reservedNames = ['hierarchy', 'allItems', 'tags'];
+    const reservedNames = ['hierarchy', 'allItems', 'tags', 'thumbnails', 'smart', 'search', 'timeline', 'types', 'colors', 'ratings', 'tagGroups'];
     if (reservedNames.includes(folderName)) {
       console.log(`[DEBUG] Rejecting file access to reserved container "${folderName}" via /folders/ route`);
       sendResponse(res, 404, { error: 'Folder not found' });
@@ -83,27 +87,8 @@ async function handleFolderFileRequest(
       return;
     }
     
-    // Look for the file by matching the filename (with or without extension)
-    let targetFile = null;
-    for (const item of folder.children) {
-      // Check if it's a file (has size property) vs folder (has children property)
-      if ('size' in item && item.size !== undefined) { // It's a file
-        // Check exact match first
-        const itemExt = 'ext' in item ? item.ext : '';
-        const itemName = item.name + (itemExt ? `.${itemExt}` : '');
-        if (itemName === filename || item.name === filename) {
-          targetFile = item;
-          break;
-        }
-        
-        // Also try case-insensitive match
-        if (itemName.toLowerCase() === filename.toLowerCase() || 
-            item.name.toLowerCase() === filename.toLowerCase()) {
-          targetFile = item;
-          break;
-        }
-      }
-    }
+    // Look the file up by the name the folder listing shows
+    const targetFile = findCollectionFile(withFileNames(folder.children as EagleWebDAVFile[], 'folders'), filename);
     
     if (!targetFile) {
       console.log(`[DEBUG] File "${filename}" not found in folder "${folderName}"`);
@@ -113,16 +98,8 @@ async function handleFolderFileRequest(
     
     console.log(`[DEBUG] Found file "${filename}" with ID "${targetFile.id}" in folder "${folderName}"`);
     
-    // Get the full file object with path information
-    const file = await getFileById(targetFile.id);
-    if (!file) {
-      console.log(`[DEBUG] Could not get file details for ID "${targetFile.id}"`);
-      sendResponse(res, 404, { error: 'File not found' });
-      return;
-    }
-    
     // Serve the file
-    await serveFileContent(file, res);
+    await serveFileContent(targetFile, res);
   } catch (error) {
     console.error('[DEBUG] Error handling folder file request:', error);
     sendResponse(res, 500, { error: 'Internal server error' });
@@ -134,13 +111,15 @@ async function handleFolderFileRequest(
  * @param pathname Request pathname
  * @param req HTTP request object
  * @param res HTTP response object
- * @param sendResponse Response sending function
+ * @param sendXMLResponse XML response sending function
+ * @param generateSingleFilePROPFIND Optional single file PROPFIND generator
  */
 export async function handleFolderPROPFIND(
   pathname: string, 
   req: any, 
   res: any, 
-  sendXMLResponse: (res: any, statusCode: number, xml: string) => void
+  sendXMLResponse: (res: any, statusCode: number, xml: string) => void,
+  generateSingleFilePROPFIND?: (requestPath: string, file: EagleWebDAVFile) => string
 ): Promise<void> {
   const depth = req.headers.depth || '1';
   
@@ -148,11 +127,7 @@ export async function handleFolderPROPFIND(
     // Folders container - show all Eagle folders (flattened)
     const folders = await getAllEagleFolders();
     const xmlResponse = generateFolderListXML('/folders', folders, depth === '0');
-    res.writeHead(207, {
-      'Content-Type': 'application/xml; charset=utf-8',
-      'Access-Control-Allow-Origin': '*'
-    });
-    res.end(xmlResponse);
+    sendXMLResponse(res, 207, xmlResponse);
   } else if (pathname.startsWith('/folders/')) {
     // Individual folder contents - get folder by name
     const folderName = decodeURIComponent(pathname.substring(9).replace(/\/$/, ''));
@@ -161,16 +136,12 @@ export async function handleFolderPROPFIND(
       // Empty folder name, show all Eagle folders
       const folders = await getAllEagleFolders();
       const xmlResponse = generateFolderListXML('/folders', folders, depth === '0');
-      res.writeHead(207, {
-        'Content-Type': 'application/xml; charset=utf-8',
-        'Access-Control-Allow-Origin': '*'
-      });
-      res.end(xmlResponse);
+      sendXMLResponse(res, 207, xmlResponse);
       return;
     }
     
     // Check if this is a reserved container name (should not be accessed via /folders/)
-    const reservedNames = ['hierarchy', 'allItems', 'tags'];
+    const reservedNames = ['hierarchy', 'allItems', 'tags', 'thumbnails', 'smart', 'search', 'timeline', 'types', 'colors', 'ratings', 'tagGroups'];
     if (reservedNames.includes(folderName)) {
       console.log(`[DEBUG] Rejecting access to reserved container "${folderName}" via /folders/ route`);
       const errorXML = '<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
@@ -180,18 +151,21 @@ export async function handleFolderPROPFIND(
     
     const folder = await getFolderByName(folderName);
     if (!folder) {
+      // Individual file PROPFIND inside a folder
+      const resolved = await resolveFile(pathname);
+      if (resolved && generateSingleFilePROPFIND) {
+        sendXMLResponse(res, 207, generateSingleFilePROPFIND(pathname, resolved.file));
+        return;
+      }
+
       const errorXML = '<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
       sendXMLResponse(res, 404, errorXML);
       return;
     }
     
     // For folder content, pass children and the folder name for proper display
-    const xmlResponse = generateFolderContentXML(pathname, folder.children || [], depth === '0', folder.name);
-    res.writeHead(207, {
-      'Content-Type': 'application/xml; charset=utf-8',
-      'Access-Control-Allow-Origin': '*'
-    });
-    res.end(xmlResponse);
+    const xmlResponse = generateFolderContentXML(pathname, withSidecarFiles(withFileNames(folder.children || [], 'folders')), depth === '0', folder.name);
+    sendXMLResponse(res, 207, xmlResponse);
   } else {
     const errorXML = '<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
     sendXMLResponse(res, 404, errorXML);
@@ -3,7 +3,9 @@
  */
 
 import { EagleWebDAVFolder } from '../../types';
-import { escapeXML } from '../../xmlUtils';
+import { escapeXML, generateEagleProperties, generateETagProperty, EAGLE_NAMESPACE } from '../../xmlUtils';
+import { getFolderLockKey, getItemLockKey } from '../../locks/lockManager';
+import { generateLockProperties } from '../../locks/xml';
 
 /**
  * Generates WebDAV PROPFIND XML response for folder listings
@@ -14,7 +16,7 @@ import { escapeXML } from '../../xmlUtils';
  */
 export function generateFolderListXML(pathname: string, folders: EagleWebDAVFolder[], isDepthZero: boolean): string {
   let xml = '<?xml version="1.0" encoding="utf-8"?>\n';
-  xml += '<D:multistatus xmlns:D="DAV:">\n';
+  xml += `<D:multistatus xmlns:D="DAV:" xmlns:eagle="${EAGLE_NAMESPACE}">\n`;
   
   // Add the requested resource itself (the current directory)
   xml += `  <D:response>\n`;
@@ -39,6 +41,7 @@ export function generateFolderListXML(pathname: string, folders: EagleWebDAVFold
       xml += `        <D:resourcetype><D:collection/></D:resourcetype>\n`;
       xml += `        <D:displayname>${folder.name}</D:displayname>\n`;
       xml += `        <D:getlastmodified>${folder.lastModified.toUTCString()}</D:getlastmodified>\n`;
+      xml += generateLockProperties(getFolderLockKey(folder.id));
       xml += `      </D:prop>\n`;
       xml += `      <D:status>HTTP/1.1 200 OK</D:status>\n`;
       xml += `    </D:propstat>\n`;
@@ -60,7 +63,7 @@ export function generateFolderListXML(pathname: string, folders: EagleWebDAVFold
  */
 export function generateFolderContentXML(pathname: string, items: any[], isDepthZero: boolean, folderName?: string): string {
   let xml = '<?xml version="1.0" encoding="utf-8"?>\n';
-  xml += '<D:multistatus xmlns:D="DAV:">\n';
+  xml += `<D:multistatus xmlns:D="DAV:" xmlns:eagle="${EAGLE_NAMESPACE}">\n`;
   
   // Only add the requested resource itself for root paths or when depth is 0
   // For specific folders, skip this to prevent WebDAV clients from showing duplicate entries
@@ -106,8 +109,8 @@ export function generateFolderContentXML(pathname: string, items: any[], isDepth
         // It's a folder - check if it's a root container or actual Eagle folder
         isFolder = true;
 
-        // Root containers (allItems, folders, hierarchy, tags) should use their own paths
-        if (item.id && ['allItems', 'folders', 'hierarchy', 'tags'].includes(item.id)) {
+        // Root containers (allItems, folders, hierarchy, tags, thumbnails, smart, search, timeline, types, colors, ratings, tagGroups) should use their own paths
+        if (item.id && ['allItems', 'folders', 'hierarchy', 'tags', 'thumbnails', 'smart', 'search', 'timeline', 'types', 'colors', 'ratings', 'tagGroups'].includes(item.id)) {
           itemPath = item.path || `/${item.name}`;
           displayName = item.name;
         } else {
@@ -136,10 +139,14 @@ export function generateFolderContentXML(pathname: string, items: any[], isDepth
       
       if (isFolder) {
         xml += `        <D:resourcetype><D:collection/></D:resourcetype>\n`;
+        xml += generateLockProperties(getFolderLockKey(item.id));
       } else {
         xml += `        <D:resourcetype/>\n`;
         xml += `        <D:getcontentlength>${item.size || 0}</D:getcontentlength>\n`;
         xml += `        <D:getcontenttype>${item.mimeType || 'application/octet-stream'}</D:getcontenttype>\n`;
+        xml += generateETagProperty(item.etag);
+        xml += generateEagleProperties(item);
+        xml += generateLockProperties(getItemLockKey(item.id));
       }
       
       xml += `        <D:displayname>${escapeXML(displayName)}</D:displayname>\n`;
@@ -1,5 +1,9 @@
-import { getHierarchicalFolders, getFolderByPath, getFileById } from '../../eagleUtils';
+import { getHierarchicalFolders, getFolderByPath } from '../../eagleUtils';
 import { generateIndexContentXML } from './xml';
+import { withFileNames } from '../../fileNames';
+import { findCollectionFile, resolveFile } from '../../pathResolver';
+import { withSidecarFiles } from '../../sidecars';
+import { EagleWebDAVFile } from '../../types';
 import { normalizePath } from '../../xmlUtils';
 
 /**
@@ -79,42 +83,16 @@ async function handleHierarchyFileRequest(
     return;
   }
   
-  // Search for file in folder children (files only)
-  for (const item of folder.children) {
-    // Check if it's a file (has size property) vs folder (has children property)
-    if ('size' in item && item.size !== undefined) {
-      const itemFilename = item.name + (item.ext ? '.' + item.ext : '');
-      
-      console.log(`[DEBUG] Checking file: "${itemFilename}" vs requested: "${filename}"`);
-      
-      // Try exact match first
-      if (itemFilename === filename) {
-        console.log(`[DEBUG] Exact match found for: ${filename}`);
-        const file = await getFileById(item.id);
-        if (file) {
-          await serveFileContent(file, res);
-        } else {
-          sendResponse(res, 404, { error: 'File content not found' });
-        }
-        return;
-      }
-      
-      // Try case-insensitive match
-      if (itemFilename.toLowerCase() === filename.toLowerCase()) {
-        console.log(`[DEBUG] Case-insensitive match found for: ${filename}`);
-        const file = await getFileById(item.id);
-        if (file) {
-          await serveFileContent(file, res);
-        } else {
-          sendResponse(res, 404, { error: 'File content not found' });
-        }
-        return;
-      }
-    }
+  // Match against the unique names the listing shows, so duplicates stay reachable
+  const file = findCollectionFile(withFileNames(folder.children as EagleWebDAVFile[], 'hierarchy'), filename);
+  if (!file) {
+    console.log(`[DEBUG] File not found in folder: ${filename}`);
+    sendResponse(res, 404, { error: 'File not found' });
+    return;
   }
   
-  console.log(`[DEBUG] File not found in folder: ${filename}`);
-  sendResponse(res, 404, { error: 'File not found' });
+  console.log(`[DEBUG] Match found for: ${filename} (item ${file.id})`);
+  await serveFileContent(file, res);
 }
 
 /**
@@ -142,11 +120,7 @@ export async function handleIndexPROPFIND(
     const hierarchicalFolders = await getHierarchicalFolders();
     const xmlResponse = generateIndexContentXML(pathname, hierarchicalFolders, isDepthZero, 'Hierarchy');
     console.log(`[DEBUG] Root hierarchy XML response:`, xmlResponse.substring(0, 500) + '...');
-    res.writeHead(207, {
-      'Content-Type': 'application/xml; charset=utf-8',
-      'Access-Control-Allow-Origin': '*'
-    });
-    res.end(xmlResponse);
+    sendXMLResponse(res, 207, xmlResponse);
   } else {
     // Subfolder in hierarchy - get folder by hierarchical path
     let hierarchyPath = pathname.substring(11).replace(/\/$/, ''); // Remove '/hierarchy/' prefix
@@ -160,6 +134,13 @@ export async function handleIndexPROPFIND(
     
     const folder = await getFolderByPath(folderPath, true); // Include subfolders for PROPFIND
     if (!folder) {
+      // Individual file PROPFIND inside a folder
+      const resolved = await resolveFile(pathname);
+      if (resolved && generateSingleFilePROPFIND) {
+        sendXMLResponse(res, 207, generateSingleFilePROPFIND(pathname, resolved.file));
+        return;
+      }
+
       console.log(`[DEBUG] Folder not found: ${folderPath}`);
       const errorXML = '<?xml version="1.0" encoding="utf-8"?><D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
       res.writeHead(404, {
@@ -172,12 +153,8 @@ export async function handleIndexPROPFIND(
     
     // For folder content, pass clean base path and children for proper display
     const basePath = `/hierarchy/${hierarchyPath}`;
-    const xmlResponse = generateIndexContentXML(basePath, folder.children || [], isDepthZero, folder.name);
+    const xmlResponse = generateIndexContentXML(basePath, withSidecarFiles(withFileNames(folder.children || [], 'hierarchy')), isDepthZero, folder.name, folder.id);
     console.log(`[DEBUG] Hierarchy XML response for ${basePath}:`, xmlResponse.substring(0, 500) + '...');
-    res.writeHead(207, {
-      'Content-Type': 'application/xml; charset=utf-8',
-      'Access-Control-Allow-Origin': '*'
-    });
-    res.end(xmlResponse);
+    sendXMLResponse(res, 207, xmlResponse);
   }
 }
\ No newline at end of file
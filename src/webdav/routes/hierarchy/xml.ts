@@ -3,7 +3,9 @@
  * Handles hierarchical folder structure XML generation
  */
 
-import { escapeXML, generateHrefPath } from '../../xmlUtils';
+import { escapeXML, generateHrefPath, generateEagleProperties, generateETagProperty, EAGLE_NAMESPACE } from '../../xmlUtils';
+import { getFolderLockKey, getItemLockKey, getPathLockKey } from '../../locks/lockManager';
+import { generateLockProperties } from '../../locks/xml';
 
 /**
  * Generates XML content for hierarchical folder listings in hierarchy route
@@ -11,13 +13,15 @@ import { escapeXML, generateHrefPath } from '../../xmlUtils';
  * @param items Array of folder/file items to include
  * @param isDepthZero Whether this is a depth=0 request (only current folder info)
  * @param displayName Display name for the current folder
+ * @param folderId Eagle folder ID of the current folder (omitted for the hierarchy root)
  * @returns WebDAV XML response string
  */
 export function generateIndexContentXML(
   requestPath: string, 
   items: any[], 
   isDepthZero: boolean = false,
-  displayName: string = 'Hierarchy'
+  displayName: string = 'Hierarchy',
+  folderId?: string
 ): string {
   const responses: string[] = [];
   
@@ -33,7 +37,7 @@ export function generateIndexContentXML(
         <D:getlastmodified>${new Date().toUTCString()}</D:getlastmodified>
         <D:creationdate>${new Date().toISOString()}</D:creationdate>
         <D:getetag>"${Date.now()}"</D:getetag>
-      </D:prop>
+${generateLockProperties(folderId ? getFolderLockKey(folderId) : getPathLockKey(requestPath))}      </D:prop>
       <D:status>HTTP/1.1 200 OK</D:status>
     </D:propstat>
   </D:response>`);
@@ -41,7 +45,7 @@ export function generateIndexContentXML(
   // If depth is 0, only return the folder itself
   if (isDepthZero) {
     return `<?xml version="1.0" encoding="utf-8"?>
-<D:multistatus xmlns:D="DAV:">
+<D:multistatus xmlns:D="DAV:" xmlns:eagle="${EAGLE_NAMESPACE}">
 ${responses.join('')}
 </D:multistatus>`;
   }
@@ -98,7 +102,7 @@ ${responses.join('')}
         <D:getlastmodified>${item.lastModified ? new Date(item.lastModified).toUTCString() : new Date().toUTCString()}</D:getlastmodified>
         <D:creationdate>${item.lastModified ? new Date(item.lastModified).toISOString() : new Date().toISOString()}</D:creationdate>
         <D:getetag>"${item.id || Date.now()}"</D:getetag>
-      </D:prop>
+${generateLockProperties(getFolderLockKey(item.id))}      </D:prop>
       <D:status>HTTP/1.1 200 OK</D:status>
     </D:propstat>
   </D:response>`);
@@ -121,8 +125,7 @@ ${responses.join('')}
         <D:getcontentlength>${fileSize}</D:getcontentlength>
         <D:getlastmodified>${lastModified}</D:getlastmodified>
         <D:creationdate>${creationDate}</D:creationdate>
-        <D:getetag>"${item.id || Date.now()}"</D:getetag>
-      </D:prop>
+${generateETagProperty(item.etag)}${generateEagleProperties(item)}${generateLockProperties(getItemLockKey(item.id))}      </D:prop>
       <D:status>HTTP/1.1 200 OK</D:status>
     </D:propstat>
   </D:response>`);
@@ -135,7 +138,7 @@ ${responses.join('')}
   }
   
   return `<?xml version="1.0" encoding="utf-8"?>
-<D:multistatus xmlns:D="DAV:">
+<D:multistatus xmlns:D="DAV:" xmlns:eagle="${EAGLE_NAMESPACE}">
 ${responses.join('')}
 </D:multistatus>`;
 }
@@ -155,7 +158,7 @@ export function generateIndexFilePROPFIND(requestPath: string, file: any): strin
   const creationDate = file.lastModified ? new Date(file.lastModified).toISOString() : new Date().toISOString();
   
   return `<?xml version="1.0" encoding="utf-8"?>
-<D:multistatus xmlns:D="DAV:">
+<D:multistatus xmlns:D="DAV:" xmlns:eagle="${EAGLE_NAMESPACE}">
   <D:response>
     <D:href>${fileHref}</D:href>
     <D:propstat>
@@ -166,8 +169,7 @@ export function generateIndexFilePROPFIND(requestPath: string, file: any): strin
         <D:getcontentlength>${fileSize}</D:getcontentlength>
         <D:getlastmodified>${lastModified}</D:getlastmodified>
         <D:creationdate>${creationDate}</D:creationdate>
-        <D:getetag>"${file.id || Date.now()}"</D:getetag>
-      </D:prop>
+${generateETagProperty(file.etag)}${generateEagleProperties(file)}${generateLockProperties(getItemLockKey(file.id))}      </D:prop>
       <D:status>HTTP/1.1 200 OK</D:status>
     </D:propstat>
   </D:response>
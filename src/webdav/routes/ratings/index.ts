@@ -0,0 +1,98 @@
+/**
+ * Ratings route handler for WebDAV server
+ * Browses items by star rating (/ratings/5/) or minimum rating (/ratings/>=4/)
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { withFileNames } from '../../fileNames';
+import { parseWebDAVPath, resolveFile } from '../../pathResolver';
+import { getRatingBuckets, getRatingItems } from '../../ratings';
+import { withSidecarFiles } from '../../sidecars';
+import { EagleWebDAVFile } from '../../types';
+import { generateIndexContentXML } from '../hierarchy/xml';
+import { generateRatingsListXML } from './xml';
+
+/**
+ * Sends a WebDAV 404 error
+ * @param res HTTP response object
+ * @param sendXMLResponse XML response sending function
+ */
+function sendNotFound(res: ServerResponse, sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void): void {
+  const errorXML = '<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
+  sendXMLResponse(res, 404, errorXML);
+}
+
+/**
+ * Handles GET requests for ratings routes
+ * @param pathname Request pathname
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ * @param serveFileContent File serving function
+ */
+export async function handleRatingsGET(
+  pathname: string,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void,
+  serveFileContent: (file: EagleWebDAVFile, res: ServerResponse) => Promise<void>
+): Promise<void> {
+  const { segments } = parseWebDAVPath(pathname);
+  if (segments.length < 2) {
+    // Ratings container and rating collections - not allowed for GET
+    sendResponse(res, 405, { error: 'Method not allowed on collections' });
+    return;
+  }
+
+  const resolved = await resolveFile(pathname);
+  if (!resolved) {
+    console.log(`[DEBUG] File not found in ratings: ${pathname}`);
+    sendResponse(res, 404, { error: 'File not found' });
+    return;
+  }
+
+  await serveFileContent(resolved.file, res);
+}
+
+/**
+ * Handles PROPFIND requests for ratings routes
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendXMLResponse XML response sending function
+ * @param generateSingleFilePROPFIND Single file PROPFIND generator
+ */
+export async function handleRatingsPROPFIND(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void,
+  generateSingleFilePROPFIND: (requestPath: string, file: EagleWebDAVFile) => string
+): Promise<void> {
+  const isDepthZero = (req.headers.depth || '1') === '0';
+  const { segments } = parseWebDAVPath(pathname);
+
+  console.log(`[DEBUG] Ratings PROPFIND - Path: ${pathname}, Segments:`, segments);
+
+  if (segments.length === 0) {
+    const buckets = isDepthZero ? [] : await getRatingBuckets();
+    sendXMLResponse(res, 207, generateRatingsListXML(pathname, buckets, isDepthZero));
+    return;
+  }
+
+  if (segments.length === 1) {
+    const items = await getRatingItems(segments[0]);
+    if (!items) {
+      sendNotFound(res, sendXMLResponse);
+      return;
+    }
+    const basePath = `/ratings/${encodeURIComponent(segments[0])}/`;
+    sendXMLResponse(res, 207, generateIndexContentXML(basePath, withSidecarFiles(withFileNames(items, 'ratings')), isDepthZero, segments[0]));
+    return;
+  }
+
+  const resolved = segments.length === 2 ? await resolveFile(pathname) : null;
+  if (!resolved) {
+    sendNotFound(res, sendXMLResponse);
+    return;
+  }
+  sendXMLResponse(res, 207, generateSingleFilePROPFIND(pathname, resolved.file));
+}
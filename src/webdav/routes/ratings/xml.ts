@@ -0,0 +1,74 @@
+/**
+ * XML generation utilities for ratings route
+ */
+
+import { RatingBucket } from '../../ratings';
+import {
+  getXMLDeclaration,
+  getMultistatusOpen,
+  getMultistatusClose,
+  getResponseOpen,
+  getResponseClose,
+  getPropstatOpen,
+  getPropstatClose,
+  getPropOpen,
+  getPropClose,
+  getSuccessStatus,
+  generateHref,
+  generateDisplayName,
+  generateLastModified,
+  generateCollectionResourceType,
+  generateItemCountProperty
+} from '../../xmlUtils';
+import { getPathLockKey } from '../../locks/lockManager';
+import { generateLockProperties } from '../../locks/xml';
+
+/**
+ * Generates a collection response entry
+ * @param path Collection path
+ * @param name Display name
+ * @param count Number of items in the collection (omitted when undefined)
+ * @returns WebDAV response XML
+ */
+function generateCollectionResponse(path: string, name: string, count?: number): string {
+  let xml = getResponseOpen();
+  xml += generateHref(path);
+  xml += getPropstatOpen();
+  xml += getPropOpen();
+  xml += generateCollectionResourceType();
+  xml += generateDisplayName(name);
+  xml += generateLastModified(new Date());
+  if (count !== undefined) {
+    xml += generateItemCountProperty(count);
+  }
+  xml += generateLockProperties(getPathLockKey(path));
+  xml += getPropClose();
+  xml += getSuccessStatus();
+  xml += getPropstatClose();
+  xml += getResponseClose();
+  return xml;
+}
+
+/**
+ * Generates WebDAV PROPFIND XML for the /ratings container
+ * Lists exact ratings (0-5) and cumulative '>=N' views with their item counts
+ * @param pathname The requested path
+ * @param buckets Rating collections
+ * @param isDepthZero Whether this is a depth 0 request
+ * @returns Formatted XML string for WebDAV PROPFIND response
+ */
+export function generateRatingsListXML(pathname: string, buckets: RatingBucket[], isDepthZero: boolean): string {
+  let xml = getXMLDeclaration();
+  xml += getMultistatusOpen();
+  xml += generateCollectionResponse('/ratings/', 'Ratings');
+
+  if (!isDepthZero) {
+    for (const bucket of buckets) {
+      xml += generateCollectionResponse(`/ratings/${encodeURIComponent(bucket.name)}/`, bucket.name, bucket.count);
+    }
+  }
+
+  xml += getMultistatusClose();
+  console.log(`[DEBUG] Ratings list XML generated for ${pathname}`);
+  return xml;
+}
@@ -0,0 +1,69 @@
+/**
+ * Search route handler for WebDAV server
+ * Exposes /search/<query>/ (or /search?q=<query>) as a collection of matching items
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import url from 'url';
+import { withFileNames } from '../../fileNames';
+import { parseWebDAVPath } from '../../pathResolver';
+import { parseSearchQuery, searchEagleItems } from '../../searchQuery';
+import { withSidecarFiles } from '../../sidecars';
+import { generateAllItemsListXML } from '../allItems/xml';
+
+/**
+ * Extracts the query text from a search path or its ?q= parameter
+ * Everything after /search/ is the query, so unencoded slashes in folder:
+ * terms (e.g. folder:"Brand/2024") are kept
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @returns Query text (empty for the bare /search collection)
+ */
+function getSearchText(pathname: string, req: IncomingMessage): string {
+  const { segments } = parseWebDAVPath(pathname);
+  if (segments.length > 0) {
+    return segments.join('/');
+  }
+
+  const q = url.parse(req.url || '', true).query.q;
+  return typeof q === 'string' ? q : '';
+}
+
+/**
+ * Handles GET requests for search routes
+ * Search results are collections; their files are served through /files
+ * @param _pathname Request pathname (unused)
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ */
+export async function handleSearchGET(
+  _pathname: string,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void
+): Promise<void> {
+  sendResponse(res, 405, { error: 'Method not allowed on collections' });
+}
+
+/**
+ * Handles PROPFIND requests for search routes
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendXMLResponse XML response sending function
+ */
+export async function handleSearchPROPFIND(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void
+): Promise<void> {
+  const isDepthZero = (req.headers.depth || '1') === '0';
+  const text = getSearchText(pathname, req);
+
+  console.log(`[DEBUG] Search PROPFIND - Path: ${pathname}, Query: "${text}"`);
+
+  const query = parseSearchQuery(text);
+  const items = isDepthZero ? [] : await searchEagleItems(query);
+  const listName = text ? `Search: ${text}` : 'Search';
+  sendXMLResponse(res, 207, generateAllItemsListXML(pathname, withSidecarFiles(withFileNames(items, 'search')), isDepthZero, listName));
+}
@@ -0,0 +1,104 @@
+/**
+ * Smart folder route handler for WebDAV server
+ * Serves built-in views (/smart/untagged, /smart/rating/5, /smart/ext/psd, ...) and
+ * saved filters (/smart/saved/<name>) backed by eagle.item.get queries
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { getItemsByFilter } from '../../eagleUtils';
+import { withFileNames } from '../../fileNames';
+import { parseWebDAVPath, resolveFile } from '../../pathResolver';
+import { withSidecarFiles } from '../../sidecars';
+import { resolveSmartPath } from '../../smartFilters';
+import { EagleWebDAVFile } from '../../types';
+import { generateIndexContentXML } from '../hierarchy/xml';
+
+/**
+ * Sends a WebDAV 404 error
+ * @param res HTTP response object
+ * @param sendXMLResponse XML response sending function
+ */
+function sendNotFound(res: ServerResponse, sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void): void {
+  const errorXML = '<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
+  sendXMLResponse(res, 404, errorXML);
+}
+
+/**
+ * Handles GET requests for smart routes
+ * @param pathname Request pathname
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ * @param serveFileContent File serving function
+ */
+export async function handleSmartGET(
+  pathname: string,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void,
+  serveFileContent: (file: EagleWebDAVFile, res: ServerResponse) => Promise<void>
+): Promise<void> {
+  const { segments } = parseWebDAVPath(pathname);
+  if (pathname.endsWith('/') || await resolveSmartPath(segments)) {
+    // Smart folders are collections - not allowed for GET
+    sendResponse(res, 405, { error: 'Method not allowed on collections' });
+    return;
+  }
+
+  const resolved = await resolveFile(pathname);
+  if (!resolved) {
+    console.log(`[DEBUG] File not found in smart folder: ${pathname}`);
+    sendResponse(res, 404, { error: 'File not found' });
+    return;
+  }
+
+  await serveFileContent(resolved.file, res);
+}
+
+/**
+ * Handles PROPFIND requests for smart routes
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendXMLResponse XML response sending function
+ * @param generateSingleFilePROPFIND Single file PROPFIND generator
+ */
+export async function handleSmartPROPFIND(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void,
+  generateSingleFilePROPFIND: (requestPath: string, file: EagleWebDAVFile) => string
+): Promise<void> {
+  const isDepthZero = (req.headers.depth || '1') === '0';
+  const { segments } = parseWebDAVPath(pathname);
+
+  console.log(`[DEBUG] Smart PROPFIND - Path: ${pathname}, Segments:`, segments);
+
+  const node = await resolveSmartPath(segments);
+  if (!node) {
+    // Not a smart folder - try a file inside one
+    const resolved = segments.length > 0 && !pathname.endsWith('/') ? await resolveFile(pathname) : null;
+    if (resolved) {
+      sendXMLResponse(res, 207, generateSingleFilePROPFIND(pathname, resolved.file));
+    } else {
+      sendNotFound(res, sendXMLResponse);
+    }
+    return;
+  }
+
+  const basePath = '/' + ['smart', ...segments].join('/') + '/';
+
+  if (node.type === 'index') {
+    const folders = node.children.map(name => ({
+      id: `smart:${basePath}${name}`,
+      name,
+      path: basePath + name,
+      lastModified: new Date(),
+      children: []
+    }));
+    sendXMLResponse(res, 207, generateIndexContentXML(basePath, folders, isDepthZero, node.name));
+    return;
+  }
+
+  const items = isDepthZero ? [] : await getItemsByFilter(node.filter);
+  sendXMLResponse(res, 207, generateIndexContentXML(basePath, withSidecarFiles(withFileNames(items, 'smart')), isDepthZero, node.name));
+}
@@ -0,0 +1,107 @@
+/**
+ * Tag groups route handler for WebDAV server
+ * Browses tags by Eagle tag group: /tagGroups/<group>/<tag>/<file>
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { parseWebDAVPath, resolveCollection, resolveFile } from '../../pathResolver';
+import { withSidecarFiles } from '../../sidecars';
+import { getTagGroup, getTagGroupBuckets } from '../../tagGroups';
+import { EagleWebDAVFile } from '../../types';
+import { generateIndexContentXML } from '../hierarchy/xml';
+import { generateTagGroupsListXML, generateTagGroupXML } from './xml';
+
+/**
+ * Sends a WebDAV 404 error
+ * @param res HTTP response object
+ * @param sendXMLResponse XML response sending function
+ */
+function sendNotFound(res: ServerResponse, sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void): void {
+  const errorXML = '<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
+  sendXMLResponse(res, 404, errorXML);
+}
+
+/**
+ * Handles GET requests for tagGroups routes
+ * @param pathname Request pathname
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ * @param serveFileContent File serving function
+ */
+export async function handleTagGroupsGET(
+  pathname: string,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void,
+  serveFileContent: (file: EagleWebDAVFile, res: ServerResponse) => Promise<void>
+): Promise<void> {
+  const { segments } = parseWebDAVPath(pathname);
+  if (segments.length < 3) {
+    // Tag groups container, groups and tags - not allowed for GET
+    sendResponse(res, 405, { error: 'Method not allowed on collections' });
+    return;
+  }
+
+  const resolved = await resolveFile(pathname);
+  if (!resolved) {
+    console.log(`[DEBUG] File not found in tag groups: ${pathname}`);
+    sendResponse(res, 404, { error: 'File not found' });
+    return;
+  }
+
+  await serveFileContent(resolved.file, res);
+}
+
+/**
+ * Handles PROPFIND requests for tagGroups routes
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendXMLResponse XML response sending function
+ * @param generateSingleFilePROPFIND Single file PROPFIND generator
+ */
+export async function handleTagGroupsPROPFIND(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void,
+  generateSingleFilePROPFIND: (requestPath: string, file: EagleWebDAVFile) => string
+): Promise<void> {
+  const isDepthZero = (req.headers.depth || '1') === '0';
+  const { segments } = parseWebDAVPath(pathname);
+
+  console.log(`[DEBUG] Tag groups PROPFIND - Path: ${pathname}, Segments:`, segments);
+
+  if (segments.length === 0) {
+    const groups = isDepthZero ? [] : await getTagGroupBuckets();
+    sendXMLResponse(res, 207, generateTagGroupsListXML(pathname, groups, isDepthZero));
+    return;
+  }
+
+  if (segments.length === 1) {
+    const entry = await getTagGroup(segments[0]);
+    if (!entry) {
+      sendNotFound(res, sendXMLResponse);
+      return;
+    }
+    sendXMLResponse(res, 207, generateTagGroupXML(entry.group, entry.tags, isDepthZero));
+    return;
+  }
+
+  if (segments.length === 2) {
+    const collection = await resolveCollection('tagGroups', segments);
+    if (!collection) {
+      sendNotFound(res, sendXMLResponse);
+      return;
+    }
+    const basePath = '/' + ['tagGroups', ...segments.map(segment => encodeURIComponent(segment))].join('/') + '/';
+    sendXMLResponse(res, 207, generateIndexContentXML(basePath, withSidecarFiles(collection.items), isDepthZero, segments[1]));
+    return;
+  }
+
+  const resolved = segments.length === 3 ? await resolveFile(pathname) : null;
+  if (!resolved) {
+    sendNotFound(res, sendXMLResponse);
+    return;
+  }
+  sendXMLResponse(res, 207, generateSingleFilePROPFIND(pathname, resolved.file));
+}
@@ -0,0 +1,105 @@
+/**
+ * XML generation utilities for tagGroups route
+ */
+
+import { TagGroupBucket, TagGroupTag } from '../../tagGroups';
+import {
+  escapeXML,
+  getXMLDeclaration,
+  getMultistatusOpen,
+  getMultistatusClose,
+  getResponseOpen,
+  getResponseClose,
+  getPropstatOpen,
+  getPropstatClose,
+  getPropOpen,
+  getPropClose,
+  getSuccessStatus,
+  generateHref,
+  generateDisplayName,
+  generateLastModified,
+  generateCollectionResourceType,
+  generateItemCountProperty
+} from '../../xmlUtils';
+import { getPathLockKey, getTagLockKey } from '../../locks/lockManager';
+import { generateLockProperties } from '../../locks/xml';
+
+/**
+ * Generates a collection response entry
+ * @param path Collection path
+ * @param name Display name
+ * @param lockKey Lock key of the collection
+ * @param count Number of tags or items in the collection (omitted when undefined)
+ * @param color Tag group color (omitted when undefined)
+ * @returns WebDAV response XML
+ */
+function generateCollectionResponse(path: string, name: string, lockKey: string, count?: number, color?: string): string {
+  let xml = getResponseOpen();
+  xml += generateHref(path);
+  xml += getPropstatOpen();
+  xml += getPropOpen();
+  xml += generateCollectionResourceType();
+  xml += generateDisplayName(name);
+  xml += generateLastModified(new Date());
+  if (count !== undefined) {
+    xml += generateItemCountProperty(count);
+  }
+  if (color) {
+    xml += `        <eagle:color>${escapeXML(color)}</eagle:color>\n`;
+  }
+  xml += generateLockProperties(lockKey);
+  xml += getPropClose();
+  xml += getSuccessStatus();
+  xml += getPropstatClose();
+  xml += getResponseClose();
+  return xml;
+}
+
+/**
+ * Generates WebDAV PROPFIND XML for the /tagGroups container
+ * Lists tag groups with their color and number of tags
+ * @param pathname The requested path
+ * @param groups Tag groups, including the _ungrouped bucket
+ * @param isDepthZero Whether this is a depth 0 request
+ * @returns Formatted XML string for WebDAV PROPFIND response
+ */
+export function generateTagGroupsListXML(pathname: string, groups: TagGroupBucket[], isDepthZero: boolean): string {
+  let xml = getXMLDeclaration();
+  xml += getMultistatusOpen();
+  xml += generateCollectionResponse('/tagGroups/', 'Tag Groups', getPathLockKey('/tagGroups'));
+
+  if (!isDepthZero) {
+    for (const group of groups) {
+      const groupPath = `/tagGroups/${encodeURIComponent(group.name)}/`;
+      xml += generateCollectionResponse(groupPath, group.name, getPathLockKey(groupPath), group.count, group.color);
+    }
+  }
+
+  xml += getMultistatusClose();
+  console.log(`[DEBUG] Tag groups list XML generated for ${pathname}`);
+  return xml;
+}
+
+/**
+ * Generates WebDAV PROPFIND XML for a single tag group
+ * Lists the group's tags with their item counts
+ * @param group Tag group
+ * @param tags Tags in the group
+ * @param isDepthZero Whether this is a depth 0 request
+ * @returns Formatted XML string for WebDAV PROPFIND response
+ */
+export function generateTagGroupXML(group: TagGroupBucket, tags: TagGroupTag[], isDepthZero: boolean): string {
+  const groupPath = `/tagGroups/${encodeURIComponent(group.name)}/`;
+  let xml = getXMLDeclaration();
+  xml += getMultistatusOpen();
+  xml += generateCollectionResponse(groupPath, group.name, getPathLockKey(groupPath), group.count, group.color);
+
+  if (!isDepthZero) {
+    for (const tag of tags) {
+      xml += generateCollectionResponse(`${groupPath}${encodeURIComponent(tag.name)}/`, tag.name, getTagLockKey(tag.name), tag.count);
+    }
+  }
+
+  xml += getMultistatusClose();
+  return xml;
+}
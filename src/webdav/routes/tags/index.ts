@@ -3,7 +3,11 @@
  * Handles tag-based browsing and file serving
  */
 
-import { getItemsByTag, getFileById } from '../../eagleUtils';
+import { getItemsByTag, getAllTagsWithCounts } from '../../eagleUtils';
+import { withFileNames } from '../../fileNames';
+import { findCollectionFile, parseWebDAVPath, resolveFile } from '../../pathResolver';
+import { withSidecarFiles } from '../../sidecars';
+import { EagleWebDAVFile } from '../../types';
 import { generateTagsListXML } from './xml';
 
 /**
@@ -72,26 +76,8 @@ async function handleTagFileRequest(
       return;
     }
     
-    // Look for the file by matching the filename
-    let targetFile = null;
-    for (const item of items) {
-      if ('size' in item && item.size !== undefined) { // It's a file
-        // Try exact match first
-        const itemExt = 'ext' in item ? item.ext : '';
-        const itemName = item.name + (itemExt ? `.${itemExt}` : '');
-        if (itemName === filename || item.name === filename) {
-          targetFile = item;
-          break;
-        }
-        
-        // Also try case-insensitive match
-        if (itemName.toLowerCase() === filename.toLowerCase() || 
-            item.name.toLowerCase() === filename.toLowerCase()) {
-          targetFile = item;
-          break;
-        }
-      }
-    }
+    // Look the file up by its unique name within the tag
+    const targetFile = findCollectionFile(withFileNames(items, 'tags'), filename);
     
     if (!targetFile) {
       console.log(`[DEBUG] File "${filename}" not found in tag "${tagName}"`);
@@ -101,16 +87,8 @@ async function handleTagFileRequest(
     
     console.log(`[DEBUG] Found file "${filename}" with ID "${targetFile.id}" in tag "${tagName}"`);
     
-    // Get the full file object with path information
-    const file = await getFileById(targetFile.id);
-    if (!file) {
-      console.log(`[DEBUG] Could not get file details for ID "${targetFile.id}"`);
-      sendResponse(res, 404, { error: 'File not found' });
-      return;
-    }
-    
     // Serve the file
-    await serveFileContent(file, res);
+    await serveFileContent(targetFile, res);
   } catch (error) {
     console.error('[DEBUG] Error handling tag file request:', error);
     sendResponse(res, 500, { error: 'Internal server error' });
@@ -123,12 +101,14 @@ async function handleTagFileRequest(
  * @param req HTTP request object
  * @param res HTTP response object
  * @param sendXMLResponse Response sending function
- * @param generateSingleFilePROPFIND Function to generate file PROPFIND XML
+ * @param generateSingleFilePROPFIND Optional single file PROPFIND generator
  */
 export async function handleTagsPROPFIND(
   pathname: string, 
   req: any, 
-  res: any
+  res: any,
+  sendXMLResponse: (res: any, statusCode: number, xml: string) => void,
+  generateSingleFilePROPFIND?: (requestPath: string, file: EagleWebDAVFile) => string
 ): Promise<void> {
   const depth = req.headers.depth || '1';
   
@@ -136,11 +116,7 @@ export async function handleTagsPROPFIND(
     // Tags container - show all tags
     const tags = await getAllTagsWithCounts();
     const xmlResponse = generateTagsListXML('/tags', tags, depth === '0');
-    res.writeHead(207, {
-      'Content-Type': 'application/xml; charset=utf-8',
-      'Access-Control-Allow-Origin': '*'
-    });
-    res.end(xmlResponse);
+    sendXMLResponse(res, 207, xmlResponse);
   } else if (pathname.startsWith('/tags/')) {
     // Individual tag contents - get items by tag
     const tagName = decodeURIComponent(pathname.substring(6).replace(/\/$/, ''));
@@ -149,14 +125,19 @@ export async function handleTagsPROPFIND(
       // Empty tag name, show all tags
       const tags = await getAllTagsWithCounts();
       const xmlResponse = generateTagsListXML('/tags', tags, depth === '0');
-      res.writeHead(207, {
-        'Content-Type': 'application/xml; charset=utf-8',
-        'Access-Control-Allow-Origin': '*'
-      });
-      res.end(xmlResponse);
+      sendXMLResponse(res, 207, xmlResponse);
       return;
     }
     
+    // Individual file PROPFIND inside a tag
+    if (parseWebDAVPath(pathname).segments.length > 1 && generateSingleFilePROPFIND) {
+      const resolved = await resolveFile(pathname);
+      if (resolved) {
+        sendXMLResponse(res, 207, generateSingleFilePROPFIND(pathname, resolved.file));
+        return;
+      }
+    }
+    
     const items = await getItemsByTag(tagName);
     if (!items) {
       const errorXML = '<?xml version="1.0" encoding="utf-8"?>\\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
@@ -170,12 +151,8 @@ export async function handleTagsPROPFIND(
     
     // For tag content, pass the base path and items for proper display
     const basePath = `/tags/${tagName}`;
-    const xmlResponse = generateTagsListXML(basePath, items, depth === '0', tagName);
-    res.writeHead(207, {
-      'Content-Type': 'application/xml; charset=utf-8',
-      'Access-Control-Allow-Origin': '*'
-    });
-    res.end(xmlResponse);
+    const xmlResponse = generateTagsListXML(basePath, withSidecarFiles(withFileNames(items, 'tags')), depth === '0', tagName);
+    sendXMLResponse(res, 207, xmlResponse);
   } else {
     const errorXML = '<?xml version="1.0" encoding="utf-8"?>\\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
     res.writeHead(404, {
@@ -185,36 +162,3 @@ export async function handleTagsPROPFIND(
     res.end(errorXML);
   }
 }
-
-/**
- * Gets all tags with their item counts
- * @returns Array of tags with count information
- */
-async function getAllTagsWithCounts(): Promise<any[]> {
-  try {
-    if (typeof eagle === 'undefined') return [];
-    
-    console.log('[DEBUG] Getting all tags with counts');
-    const tags = await eagle.tag.get();
-    
-    if (!tags || !Array.isArray(tags)) {
-      console.warn('[DEBUG] No tags returned from Eagle API');
-      return [];
-    }
-    
-    console.log(`[DEBUG] Got ${tags.length} tags from Eagle`);
-    
-    // Convert tags to WebDAV folder format
-    return tags.map(tag => ({
-      id: tag.id || tag.name,
-      name: tag.name,
-      count: tag.count || 0,
-      path: `/tags/${tag.name}`,
-      lastModified: new Date(),
-      children: []
-    }));
-  } catch (error) {
-    console.error('[DEBUG] Error getting tags:', error);
-    return [];
-  }
-}
\ No newline at end of file
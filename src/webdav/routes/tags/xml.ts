@@ -3,6 +3,10 @@
  * Handles PROPFIND responses for tag-based browsing
  */
 
+import { generateEagleProperties, generateETagProperty, EAGLE_NAMESPACE } from '../../xmlUtils';
+import { getItemLockKey, getPathLockKey, getTagLockKey } from '../../locks/lockManager';
+import { generateLockProperties } from '../../locks/xml';
+
 /**
  * Generates XML response for tags listings (both tag list and tag contents)
  * @param requestPath The request path (e.g., '/tags' or '/tags/tagName')
@@ -18,7 +22,7 @@ export function generateTagsListXML(
   tagName?: string
 ): string {
   let xml = `<?xml version="1.0" encoding="utf-8"?>
-<D:multistatus xmlns:D="DAV:">`;
+<D:multistatus xmlns:D="DAV:" xmlns:eagle="${EAGLE_NAMESPACE}">`;
 
   // Add current collection info
   xml += `
@@ -33,7 +37,7 @@ export function generateTagsListXML(
         <D:getlastmodified>${new Date().toUTCString()}</D:getlastmodified>
         <D:creationdate>${new Date().toISOString()}</D:creationdate>
         <D:getcontenttype>httpd/unix-directory</D:getcontenttype>
-      </D:prop>
+${generateLockProperties(tagName ? getTagLockKey(tagName) : getPathLockKey('/tags'))}      </D:prop>
       <D:status>HTTP/1.1 200 OK</D:status>
     </D:propstat>
   </D:response>`;
@@ -86,7 +90,7 @@ function generateTagFolderXML(basePath: string, tag: any): string {
         <D:getlastmodified>${(tag.lastModified || new Date()).toUTCString()}</D:getlastmodified>
         <D:creationdate>${(tag.lastModified || new Date()).toISOString()}</D:creationdate>
         <D:getcontenttype>httpd/unix-directory</D:getcontenttype>
-      </D:prop>
+${generateLockProperties(getTagLockKey(tag.name))}      </D:prop>
       <D:status>HTTP/1.1 200 OK</D:status>
     </D:propstat>
   </D:response>`;
@@ -115,8 +119,7 @@ function generateFileXML(basePath: string, file: any): string {
         <D:getcontenttype>${escapeXML(mimeType)}</D:getcontenttype>
         <D:getlastmodified>${(file.lastModified || new Date()).toUTCString()}</D:getlastmodified>
         <D:creationdate>${(file.lastModified || new Date()).toISOString()}</D:creationdate>
-        <D:getetag>"${file.id || 'unknown'}-${(file.lastModified || new Date()).getTime()}"</D:getetag>
-      </D:prop>
+${generateETagProperty(file.etag)}${generateEagleProperties(file)}${generateLockProperties(getItemLockKey(file.id))}      </D:prop>
       <D:status>HTTP/1.1 200 OK</D:status>
     </D:propstat>
   </D:response>`;
@@ -148,7 +151,7 @@ export function generateSingleTagFilePROPFIND(requestPath: string, file: any): s
   const mimeType = file.mimeType || 'application/octet-stream';
   
   return `<?xml version="1.0" encoding="utf-8"?>
-<D:multistatus xmlns:D="DAV:">
+<D:multistatus xmlns:D="DAV:" xmlns:eagle="${EAGLE_NAMESPACE}">
   <D:response>
     <D:href>${escapeXML(requestPath)}</D:href>
     <D:propstat>
@@ -159,8 +162,7 @@ export function generateSingleTagFilePROPFIND(requestPath: string, file: any): s
         <D:getcontenttype>${escapeXML(mimeType)}</D:getcontenttype>
         <D:getlastmodified>${(file.lastModified || new Date()).toUTCString()}</D:getlastmodified>
         <D:creationdate>${(file.lastModified || new Date()).toISOString()}</D:creationdate>
-        <D:getetag>"${file.id || 'unknown'}-${(file.lastModified || new Date()).getTime()}"</D:getetag>
-      </D:prop>
+${generateETagProperty(file.etag)}${generateEagleProperties(file)}${generateLockProperties(getItemLockKey(file.id))}      </D:prop>
       <D:status>HTTP/1.1 200 OK</D:status>
     </D:propstat>
   </D:response>
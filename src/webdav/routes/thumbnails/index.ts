@@ -0,0 +1,148 @@
+/**
+ * Thumbnails route handler for WebDAV server
+ * Mirrors /hierarchy and /tags, serving each item's Eagle thumbnail instead of the original
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { getAllTagsWithCounts, getFolderByPath, getHierarchicalFolders, toThumbnailFile } from '../../eagleUtils';
+import { withFileNames, withUniqueNames } from '../../fileNames';
+import { parseWebDAVPath, resolveCollection, resolveFile, WebDAVRoute } from '../../pathResolver';
+import { EagleWebDAVFile, EagleWebDAVFolder } from '../../types';
+import { generateIndexContentXML } from '../hierarchy/xml';
+import { generateTagsListXML } from '../tags/xml';
+import { generateThumbnailsRootXML } from './xml';
+
+/**
+ * Routes mirrored under /thumbnails
+ */
+const MIRRORED_ROUTES = ['hierarchy', 'tags'];
+
+/**
+ * Swaps the files in a listing for their thumbnails, keeping subfolders
+ * Files without a thumbnail on disk are left out. Files are named as in the
+ * mirrored route before the swap and made unique again after it, matching
+ * resolveCollection for /thumbnails
+ * @param items Folder and file entries
+ * @param route Mirrored route
+ * @returns Entries with thumbnail files
+ */
+function toThumbnailListing(items: (EagleWebDAVFile | EagleWebDAVFolder)[], route: WebDAVRoute): (EagleWebDAVFile | EagleWebDAVFolder)[] {
+  return withUniqueNames(withFileNames(items, route)
+    .map(item => ('children' in item ? item : toThumbnailFile(item)))
+    .filter((item): item is EagleWebDAVFile | EagleWebDAVFolder => !!item));
+}
+
+/**
+ * Sends a WebDAV 404 error
+ * @param res HTTP response object
+ * @param sendXMLResponse XML response sending function
+ */
+function sendNotFound(res: ServerResponse, sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void): void {
+  const errorXML = '<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
+  sendXMLResponse(res, 404, errorXML);
+}
+
+/**
+ * Handles GET requests for thumbnails routes
+ * @param pathname Request pathname
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ * @param serveFileContent File serving function
+ */
+export async function handleThumbnailsGET(
+  pathname: string,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void,
+  serveFileContent: (file: EagleWebDAVFile, res: ServerResponse) => Promise<void>
+): Promise<void> {
+  const { segments } = parseWebDAVPath(pathname);
+  if (segments.length <= 1 || pathname.endsWith('/')) {
+    // Thumbnails container and mirrored collections - not allowed for GET
+    sendResponse(res, 405, { error: 'Method not allowed on collections' });
+    return;
+  }
+
+  const resolved = await resolveFile(pathname);
+  if (!resolved) {
+    console.log(`[DEBUG] Thumbnail not found: ${pathname}`);
+    sendResponse(res, 404, { error: 'Thumbnail not found' });
+    return;
+  }
+
+  console.log(`[DEBUG] Serving thumbnail for item ${resolved.file.id}: ${resolved.file.path}`);
+  await serveFileContent(resolved.file, res);
+}
+
+/**
+ * Handles PROPFIND requests for thumbnails routes
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendXMLResponse XML response sending function
+ * @param generateSingleFilePROPFIND Single file PROPFIND generator
+ */
+export async function handleThumbnailsPROPFIND(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void,
+  generateSingleFilePROPFIND: (requestPath: string, file: EagleWebDAVFile) => string
+): Promise<void> {
+  const isDepthZero = (req.headers.depth || '1') === '0';
+  const { segments } = parseWebDAVPath(pathname);
+  const [mirroredRoute, ...rest] = segments;
+
+  console.log(`[DEBUG] Thumbnails PROPFIND - Path: ${pathname}, Segments:`, segments);
+
+  if (!mirroredRoute) {
+    sendXMLResponse(res, 207, generateThumbnailsRootXML(pathname, MIRRORED_ROUTES, isDepthZero));
+    return;
+  }
+
+  if (!MIRRORED_ROUTES.includes(mirroredRoute)) {
+    sendNotFound(res, sendXMLResponse);
+    return;
+  }
+
+  const basePath = '/' + ['thumbnails', ...segments].join('/');
+
+  // A file inside a mirrored collection
+  if (rest.length > 0 && !pathname.endsWith('/')) {
+    const resolved = await resolveFile(pathname);
+    if (resolved) {
+      sendXMLResponse(res, 207, generateSingleFilePROPFIND(pathname, resolved.file));
+      return;
+    }
+  }
+
+  if (mirroredRoute === 'hierarchy') {
+    if (rest.length === 0) {
+      const folders = await getHierarchicalFolders();
+      sendXMLResponse(res, 207, generateIndexContentXML(basePath + '/', folders, isDepthZero, 'Hierarchy'));
+      return;
+    }
+
+    const folder = await getFolderByPath('/' + rest.join('/'), true);
+    if (!folder) {
+      sendNotFound(res, sendXMLResponse);
+      return;
+    }
+    const xml = generateIndexContentXML(basePath, toThumbnailListing(folder.children || [], 'hierarchy'), isDepthZero, folder.name, folder.id);
+    sendXMLResponse(res, 207, xml);
+    return;
+  }
+
+  // Tags
+  if (rest.length === 0) {
+    const tags = await getAllTagsWithCounts();
+    sendXMLResponse(res, 207, generateTagsListXML(basePath, tags, isDepthZero));
+    return;
+  }
+
+  const collection = rest.length === 1 ? await resolveCollection('thumbnails', segments) : null;
+  if (!collection) {
+    sendNotFound(res, sendXMLResponse);
+    return;
+  }
+  sendXMLResponse(res, 207, generateTagsListXML(basePath, collection.items, isDepthZero, rest[0]));
+}
@@ -0,0 +1,65 @@
+/**
+ * XML generation utilities for thumbnails route
+ */
+
+import {
+  getXMLDeclaration,
+  getMultistatusOpen,
+  getMultistatusClose,
+  getResponseOpen,
+  getResponseClose,
+  getPropstatOpen,
+  getPropstatClose,
+  getPropOpen,
+  getPropClose,
+  getSuccessStatus,
+  generateHref,
+  generateDisplayName,
+  generateLastModified,
+  generateCollectionResourceType
+} from '../../xmlUtils';
+
+/**
+ * Generates a collection response entry
+ * @param path Collection path
+ * @param name Display name
+ * @returns WebDAV response XML
+ */
+function generateCollectionResponse(path: string, name: string): string {
+  let xml = getResponseOpen();
+  xml += generateHref(path);
+  xml += getPropstatOpen();
+  xml += getPropOpen();
+  xml += generateCollectionResourceType();
+  xml += generateDisplayName(name);
+  xml += generateLastModified(new Date());
+  xml += getPropClose();
+  xml += getSuccessStatus();
+  xml += getPropstatClose();
+  xml += getResponseClose();
+  return xml;
+}
+
+/**
+ * Generates WebDAV PROPFIND XML for the /thumbnails container
+ * Lists the mirrored routes (hierarchy and tags) as subcollections
+ * @param pathname The requested path
+ * @param routes Names of the mirrored routes
+ * @param isDepthZero Whether this is a depth 0 request
+ * @returns Formatted XML string for WebDAV PROPFIND response
+ */
+export function generateThumbnailsRootXML(pathname: string, routes: string[], isDepthZero: boolean): string {
+  let xml = getXMLDeclaration();
+  xml += getMultistatusOpen();
+  xml += generateCollectionResponse('/thumbnails/', 'Thumbnails');
+
+  if (!isDepthZero) {
+    for (const route of routes) {
+      xml += generateCollectionResponse(`/thumbnails/${route}/`, route);
+    }
+  }
+
+  xml += getMultistatusClose();
+  console.log(`[DEBUG] Thumbnails root XML generated for ${pathname}`);
+  return xml;
+}
@@ -0,0 +1,104 @@
+/**
+ * Timeline route handler for WebDAV server
+ * Browses items by import date: /timeline/<year>/<month>/<day>/<file>
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { withFileNames } from '../../fileNames';
+import { parseWebDAVPath, resolveFile } from '../../pathResolver';
+import { withSidecarFiles } from '../../sidecars';
+import { getTimelineBuckets, getTimelineItems } from '../../timeline';
+import { EagleWebDAVFile } from '../../types';
+import { generateTimelineDayXML, generateTimelineLevelXML } from './xml';
+
+/**
+ * Sends a WebDAV 404 error
+ * @param res HTTP response object
+ * @param sendXMLResponse XML response sending function
+ */
+function sendNotFound(res: ServerResponse, sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void): void {
+  const errorXML = '<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 404 Not Found</D:status></D:response></D:error>';
+  sendXMLResponse(res, 404, errorXML);
+}
+
+/**
+ * Handles GET requests for timeline routes
+ * @param pathname Request pathname
+ * @param res HTTP response object
+ * @param sendResponse Response sending function
+ * @param serveFileContent File serving function
+ */
+export async function handleTimelineGET(
+  pathname: string,
+  res: ServerResponse,
+  sendResponse: (res: ServerResponse, status: number, data: unknown) => void,
+  serveFileContent: (file: EagleWebDAVFile, res: ServerResponse) => Promise<void>
+): Promise<void> {
+  const { segments } = parseWebDAVPath(pathname);
+  if (segments.length < 4) {
+    // Timeline, years, months and days - not allowed for GET
+    sendResponse(res, 405, { error: 'Method not allowed on collections' });
+    return;
+  }
+
+  const resolved = await resolveFile(pathname);
+  if (!resolved) {
+    console.log(`[DEBUG] File not found in timeline: ${pathname}`);
+    sendResponse(res, 404, { error: 'File not found' });
+    return;
+  }
+
+  await serveFileContent(resolved.file, res);
+}
+
+/**
+ * Handles PROPFIND requests for timeline routes
+ * Each level only computes what it lists: years, months and days carry item
+ * counts, and items are loaded at day level
+ * @param pathname Request pathname
+ * @param req HTTP request object
+ * @param res HTTP response object
+ * @param sendXMLResponse XML response sending function
+ * @param generateSingleFilePROPFIND Single file PROPFIND generator
+ */
+export async function handleTimelinePROPFIND(
+  pathname: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  sendXMLResponse: (res: ServerResponse, statusCode: number, xml: string) => void,
+  generateSingleFilePROPFIND: (requestPath: string, file: EagleWebDAVFile) => string
+): Promise<void> {
+  const isDepthZero = (req.headers.depth || '1') === '0';
+  const { segments } = parseWebDAVPath(pathname);
+  const basePath = '/' + ['timeline', ...segments].join('/') + '/';
+  const displayName = segments.length > 0 ? segments[segments.length - 1] : 'Timeline';
+
+  console.log(`[DEBUG] Timeline PROPFIND - Path: ${pathname}, Segments:`, segments);
+
+  if (segments.length < 3) {
+    const buckets = await getTimelineBuckets(segments);
+    if (!buckets) {
+      sendNotFound(res, sendXMLResponse);
+      return;
+    }
+    sendXMLResponse(res, 207, generateTimelineLevelXML(basePath, displayName, buckets, isDepthZero));
+    return;
+  }
+
+  if (segments.length === 3) {
+    const items = await getTimelineItems(segments);
+    if (!items) {
+      sendNotFound(res, sendXMLResponse);
+      return;
+    }
+    sendXMLResponse(res, 207, generateTimelineDayXML(basePath, displayName, withSidecarFiles(withFileNames(items, 'timeline')), isDepthZero));
+    return;
+  }
+
+  const resolved = segments.length === 4 ? await resolveFile(pathname) : null;
+  if (!resolved) {
+    sendNotFound(res, sendXMLResponse);
+    return;
+  }
+  sendXMLResponse(res, 207, generateSingleFilePROPFIND(pathname, resolved.file));
+}
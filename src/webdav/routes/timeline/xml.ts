@@ -0,0 +1,119 @@
+/**
+ * XML generation utilities for timeline route
+ */
+
+import { TimelineBucket } from '../../timeline';
+import { EagleWebDAVFile } from '../../types';
+import {
+  getXMLDeclaration,
+  getMultistatusOpen,
+  getMultistatusClose,
+  getResponseOpen,
+  getResponseClose,
+  getPropstatOpen,
+  getPropstatClose,
+  getPropOpen,
+  getPropClose,
+  getSuccessStatus,
+  generateHref,
+  generateDisplayName,
+  generateLastModified,
+  generateCollectionResourceType,
+  generateFileResourceType,
+  generateContentLength,
+  generateContentType,
+  generateETagProperty,
+  generateEagleProperties,
+  generateItemCountProperty
+} from '../../xmlUtils';
+import { getItemLockKey, getPathLockKey } from '../../locks/lockManager';
+import { generateLockProperties } from '../../locks/xml';
+
+/**
+ * Generates a collection response entry
+ * @param path Collection path
+ * @param name Display name
+ * @param count Number of items in the collection (omitted when undefined)
+ * @returns WebDAV response XML
+ */
+function generateCollectionResponse(path: string, name: string, count?: number): string {
+  let xml = getResponseOpen();
+  xml += generateHref(path);
+  xml += getPropstatOpen();
+  xml += getPropOpen();
+  xml += generateCollectionResourceType();
+  xml += generateDisplayName(name);
+  xml += generateLastModified(new Date());
+  if (count !== undefined) {
+    xml += generateItemCountProperty(count);
+  }
+  xml += generateLockProperties(getPathLockKey(path));
+  xml += getPropClose();
+  xml += getSuccessStatus();
+  xml += getPropstatClose();
+  xml += getResponseClose();
+  return xml;
+}
+
+/**
+ * Generates WebDAV PROPFIND XML for the timeline, a year or a month
+ * Lists the next level as subcollections with their item counts
+ * @param pathname The requested path (ending with '/')
+ * @param displayName Display name of the requested level
+ * @param buckets Years, months or days with item counts
+ * @param isDepthZero Whether this is a depth 0 request
+ * @returns Formatted XML string for WebDAV PROPFIND response
+ */
+export function generateTimelineLevelXML(pathname: string, displayName: string, buckets: TimelineBucket[], isDepthZero: boolean): string {
+  let xml = getXMLDeclaration();
+  xml += getMultistatusOpen();
+  xml += generateCollectionResponse(pathname, displayName);
+
+  if (!isDepthZero) {
+    for (const bucket of buckets) {
+      xml += generateCollectionResponse(`${pathname}${bucket.name}/`, bucket.name, bucket.count);
+    }
+  }
+
+  xml += getMultistatusClose();
+  return xml;
+}
+
+/**
+ * Generates WebDAV PROPFIND XML for a day, listing the items imported that day
+ * @param pathname The requested path (ending with '/')
+ * @param displayName Display name of the day
+ * @param items Files imported that day
+ * @param isDepthZero Whether this is a depth 0 request
+ * @returns Formatted XML string for WebDAV PROPFIND response
+ */
+export function generateTimelineDayXML(pathname: string, displayName: string, items: EagleWebDAVFile[], isDepthZero: boolean): string {
+  let xml = getXMLDeclaration();
+  xml += getMultistatusOpen();
+  xml += generateCollectionResponse(pathname, displayName);
+
+  if (!isDepthZero) {
+    for (const item of items) {
+      const filename = item.name + (item.ext ? `.${item.ext}` : '');
+      xml += getResponseOpen();
+      xml += generateHref(pathname + filename);
+      xml += getPropstatOpen();
+      xml += getPropOpen();
+      xml += generateFileResourceType();
+      xml += generateContentLength(item.size || 0);
+      xml += generateContentType(item.mimeType || 'application/octet-stream');
+      xml += generateDisplayName(filename);
+      xml += generateLastModified(item.lastModified || new Date());
+      xml += generateETagProperty(item.etag);
+      xml += generateEagleProperties(item);
+      xml += generateLockProperties(getItemLockKey(item.id));
+      xml += getPropClose();
+      xml += getSuccessStatus();
+      xml += getPropstatClose();
+      xml += getResponseClose();
+    }
+  }
+
+  xml += getMultistatusClose();
+  return xml;
+}
@@ -0,0 +1,74 @@
+/**
+ * XML generation utilities for types route
+ */
+
+import { FileTypeBucket } from '../../fileTypes';
+import {
+  getXMLDeclaration,
+  getMultistatusOpen,
+  getMultistatusClose,
+  getResponseOpen,
+  getResponseClose,
+  getPropstatOpen,
+  getPropstatClose,
+  getPropOpen,
+  getPropClose,
+  getSuccessStatus,
+  generateHref,
+  generateDisplayName,
+  generateLastModified,
+  generateCollectionResourceType,
+  generateItemCountProperty
+} from '../../xmlUtils';
+import { getPathLockKey } from '../../locks/lockManager';
+import { generateLockProperties } from '../../locks/xml';
+
+/**
+ * Generates a collection response entry
+ * @param path Collection path
+ * @param name Display name
+ * @param count Number of items in the collection (omitted when undefined)
+ * @returns WebDAV response XML
+ */
+function generateCollectionResponse(path: string, name: string, count?: number): string {
+  let xml = getResponseOpen();
+  xml += generateHref(path);
+  xml += getPropstatOpen();
+  xml += getPropOpen();
+  xml += generateCollectionResourceType();
+  xml += generateDisplayName(name);
+  xml += generateLastModified(new Date());
+  if (count !== undefined) {
+    xml += generateItemCountProperty(count);
+  }
+  xml += generateLockProperties(getPathLockKey(path));
+  xml += getPropClose();
+  xml += getSuccessStatus();
+  xml += getPropstatClose();
+  xml += getResponseClose();
+  return xml;
+}
+
+/**
+ * Generates WebDAV PROPFIND XML for the /types container
+ * Lists MIME families (@image, @video, ...) and extensions with their item counts
+ * @param pathname The requested path
+ * @param buckets MIME families and extensions present in the library
+ * @param isDepthZero Whether this is a depth 0 request
+ * @returns Formatted XML string for WebDAV PROPFIND response
+ */
+export function generateTypesListXML(pathname: string, buckets: FileTypeBucket[], isDepthZero: boolean): string {
+  let xml = getXMLDeclaration();
+  xml += getMultistatusOpen();
+  xml += generateCollectionResponse('/types/', 'Types');
+
+  if (!isDepthZero) {
+    for (const bucket of buckets) {
+      xml += generateCollectionResponse(`/types/${bucket.name}/`, bucket.name, bucket.count);
+    }
+  }
+
+  xml += getMultistatusClose();
+  console.log(`[DEBUG] Types list XML generated for ${pathname}`);
+  return xml;
+}
@@ -0,0 +1,138 @@
+/**
+ * Search query parsing for the /search route
+ * Turns queries such as 'logo tag:brand ext:png rating>=4 folder:"Brand/2024"' into
+ * an eagle.item.get query plus the rating comparison Eagle cannot express
+ */
+
+import { findEagleFolderByName, findEagleFolderByPath, getItemsByFilter } from './eagleUtils';
+import { EagleItemFilter, EagleWebDAVFile } from './types';
+
+/**
+ * Comparison operators accepted after 'rating'
+ */
+type RatingOperator = '=' | '>=' | '>' | '<=' | '<';
+
+/**
+ * A parsed search query
+ */
+export interface ParsedSearchQuery {
+  keywords: string[];
+  tags: string[];
+  folders: string[];
+  ext?: string;
+  rating?: { operator: RatingOperator; value: number };
+}
+
+/**
+ * Splits a query into whitespace-separated terms, keeping quoted text together
+ * Quotes are removed, so 'folder:"Brand 2024"' becomes 'folder:Brand 2024'
+ * @param query Raw query text
+ * @returns Query terms
+ */
+function tokenizeSearchQuery(query: string): string[] {
+  const tokens = query.match(/(?:[^\s"]+|"[^"]*"?)+/g) || [];
+  return tokens.map(token => token.replace(/"/g, '')).filter(token => token);
+}
+
+/**
+ * Parses the search syntax
+ * - tag:<name>, ext:<extension>, folder:<path or name>
+ * - rating=N, rating:N, rating>=N, rating>N, rating<=N, rating<N
+ * - any other term is a keyword
+ * Repeated tag: and folder: terms must all match
+ * @param query Raw query text
+ * @returns Parsed query
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { keywords: [], tags: [], folders: [] };
+
+  for (const token of tokenizeSearchQuery(query)) {
+    const rating = /^rating\s*(>=|<=|>|<|=|:)\s*(\d)$/i.exec(token);
+    if (rating) {
+      const operator = rating[1] === ':' ? '=' : rating[1] as RatingOperator;
+      parsed.rating = { operator, value: parseInt(rating[2], 10) };
+      continue;
+    }
+
+    const field = /^(tag|ext|folder):(.+)$/i.exec(token);
+    if (!field) {
+      parsed.keywords.push(token);
+      continue;
+    }
+
+    const value = field[2];
+    switch (field[1].toLowerCase()) {
+      case 'tag':
+        parsed.tags.push(value);
+        break;
+      case 'ext':
+        parsed.ext = value.replace(/^\./, '').toLowerCase();
+        break;
+      case 'folder':
+        parsed.folders.push(value);
+        break;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Checks whether a parsed query has any criteria
+ * @param query Parsed query
+ * @returns True if the query would match a subset of the library
+ */
+export function isEmptySearchQuery(query: ParsedSearchQuery): boolean {
+  return query.keywords.length === 0 && query.tags.length === 0 && query.folders.length === 0 && !query.ext && !query.rating;
+}
+
+/**
+ * Checks a star rating against a rating comparison
+ * @param star Item star rating (0 when unrated)
+ * @param rating Rating comparison from the query
+ * @returns True if the rating matches
+ */
+function matchesRating(star: number, rating: { operator: RatingOperator; value: number }): boolean {
+  switch (rating.operator) {
+    case '>=': return star >= rating.value;
+    case '>': return star > rating.value;
+    case '<=': return star <= rating.value;
+    case '<': return star < rating.value;
+    default: return star === rating.value;
+  }
+}
+
+/**
+ * Runs a parsed search query against the Eagle library
+ * Folders are looked up by hierarchical path first, then by name
+ * @param query Parsed query
+ * @returns Matching files (empty for queries without criteria or with unknown folders)
+ */
+export async function searchEagleItems(query: ParsedSearchQuery): Promise<EagleWebDAVFile[]> {
+  if (isEmptySearchQuery(query)) {
+    return [];
+  }
+
+  const filter: EagleItemFilter = {};
+  if (query.keywords.length > 0) filter.keywords = query.keywords;
+  if (query.tags.length > 0) filter.tags = query.tags;
+  if (query.ext) filter.ext = query.ext;
+  if (query.rating && query.rating.operator === '=') filter.rating = query.rating.value;
+
+  if (query.folders.length > 0) {
+    const folderIds: string[] = [];
+    for (const folderPath of query.folders) {
+      const folder = await findEagleFolderByPath('/' + folderPath.replace(/^\/+|\/+$/g, '')) || await findEagleFolderByName(folderPath);
+      if (!folder) {
+        console.log(`[DEBUG] Search folder not found: ${folderPath}`);
+        return [];
+      }
+      folderIds.push(folder.id);
+    }
+    filter.folders = folderIds;
+  }
+
+  const items = await getItemsByFilter(filter);
+  const rating = query.rating;
+  return rating && rating.operator !== '=' ? items.filter(item => matchesRating(item.star || 0, rating)) : items;
+}
@@ -1,16 +1,42 @@
-const http = require('http');
-const url = require('url');
+import http from 'http';
+import type { IncomingMessage, ServerResponse } from 'http';
+import https from 'https';
+import url from 'url';
 
 // Import modular components
-import { WebDAVServerConfig } from './types';
+import { EagleWebDAVFile, WebDAVServerConfig } from './types';
 import { authenticateWebDAV, getServerCredentials } from './auth/auth';
 import { handleFolderGET, handleFolderPROPFIND } from './routes/folders';
 import { handleAllItemsGET, handleAllItemsPROPFIND } from './routes/allItems';
 import { handleFilesGET, handleFilesPROPFIND, handleFilesHEAD } from './routes/files';
 import { handleIndexGET, handleIndexPROPFIND } from './routes/hierarchy';
 import { handleTagsGET, handleTagsPROPFIND } from './routes/tags';
-import { getRootContainer } from './eagleUtils';
+import { handleThumbnailsGET, handleThumbnailsPROPFIND } from './routes/thumbnails';
+import { handleSmartGET, handleSmartPROPFIND } from './routes/smart';
+import { handleSearchGET, handleSearchPROPFIND } from './routes/search';
+import { handleTimelineGET, handleTimelinePROPFIND } from './routes/timeline';
+import { handleTypesGET, handleTypesPROPFIND } from './routes/types';
+import { handleColorsGET, handleColorsPROPFIND } from './routes/colors';
+import { handleRatingsGET, handleRatingsPROPFIND } from './routes/ratings';
+import { handleTagGroupsGET, handleTagGroupsPROPFIND } from './routes/tagGroups';
+import { handlePUT } from './methods/put';
+import { handleMKCOL } from './methods/mkcol';
+import { handleDELETE } from './methods/delete';
+import { handleCOPY, handleMOVE } from './methods/copyMove';
+import { handlePROPPATCH } from './methods/proppatch';
+import { handleSEARCH } from './methods/search';
+import { parsePropfindBody, applyPropfindRequest } from './methods/propfind';
+import { handleLOCK, handleUNLOCK, enforceLocks } from './methods/lock';
+import { handleOPTIONS } from './methods/options';
+import { enforcePreconditions } from './methods/preconditions';
+import { getRootContainer, toThumbnailFile } from './eagleUtils';
 import { generateFolderContentXML } from './routes/folders/xml';
+import { generateEagleProperties, generateETagProperty, EAGLE_NAMESPACE } from './xmlUtils';
+import { getHTTPSPort, isHTTPSEnabled, isHTTPSRedirectEnabled, isReadOnlyMode } from './settings';
+import { loadTLSCredentials } from './certificates';
+import { serveFile } from './rangeUtils';
+import { getItemLockKey } from './locks/lockManager';
+import { generateLockProperties } from './locks/xml';
 
 // Re-export types for backward compatibility
 export type { WebDAVServerConfig, EagleWebDAVFile, EagleWebDAVFolder } from './types';
@@ -18,6 +44,8 @@ export type { WebDAVServerConfig, EagleWebDAVFile, EagleWebDAVFolder } from './t
 export class EagleWebDAVServer {
   private static instance: EagleWebDAVServer | null = null;
   private httpServer: any = null;
+  private httpsServer: https.Server | null = null;
+  private tlsFingerprint: string | null = null;
   private config!: WebDAVServerConfig;
   private isRunning = false;
 
@@ -51,30 +79,47 @@ export class EagleWebDAVServer {
         eagle.log.info(`Starting Eagle WebDAV server on ${this.config.host}:${this.config.port}`);
       }
       
-      // Create HTTP server
-      this.httpServer = http.createServer((req: any, res: any) => {
-        this.handleRequest(req, res);
-      });
-      
-      // Start HTTP server
-      return new Promise((resolve) => {
-        this.httpServer!.listen(this.config.port, () => {
-          this.isRunning = true;
+      // Create HTTPS server when enabled, with the user's certificate or a self-signed one
+      if (isHTTPSEnabled()) {
+        const credentials = loadTLSCredentials();
+        if (!credentials) {
           if (typeof eagle !== 'undefined') {
-            eagle.log.info(`Eagle WebDAV server started successfully on port ${this.config.port}`);
+            eagle.log.error('Failed to start server: HTTPS certificate could not be loaded');
           }
-          resolve(true);
-        });
+          return false;
+        }
         
-        this.httpServer!.on('error', (error: any) => {
-          if (typeof eagle !== 'undefined') {
-            eagle.log.error(`Failed to start server: ${error.message}`);
-          } else {
-            console.error(`Failed to start server: ${error.message}`);
-          }
-          resolve(false);
+        this.config.httpsPort = getHTTPSPort();
+        this.tlsFingerprint = credentials.fingerprint;
+        this.httpsServer = https.createServer({ cert: credentials.cert, key: credentials.key }, (req, res) => {
+          this.handleRequest(req, res);
         });
+      }
+      
+      // Create HTTP server
+      this.httpServer = http.createServer((req: any, res: any) => {
+        if (this.httpsServer && isHTTPSRedirectEnabled()) {
+          this.redirectToHTTPS(req, res);
+          return;
+        }
+        this.handleRequest(req, res);
       });
+      
+      // Start HTTP server, then the HTTPS listener
+      if (!await this.listen(this.httpServer, this.config.port)) {
+        this.httpServer = null;
+        this.httpsServer = null;
+        return false;
+      }
+      if (this.httpsServer && !await this.listen(this.httpsServer, this.config.httpsPort!)) {
+        this.httpServer.close();
+        this.httpServer = null;
+        this.httpsServer = null;
+        return false;
+      }
+      
+      this.isRunning = true;
+      return true;
     } catch (error) {
       if (typeof eagle !== 'undefined') {
         eagle.log.error(`Failed to start WebDAV server: ${error}`);
@@ -86,31 +131,60 @@ export class EagleWebDAVServer {
     }
   }
 
+  private listen(server: http.Server | https.Server, port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      server.listen(port, () => {
+        if (typeof eagle !== 'undefined') {
+          eagle.log.info(`Eagle WebDAV server started successfully on port ${port}`);
+        }
+        resolve(true);
+      });
+      
+      server.on('error', (error: Error) => {
+        if (typeof eagle !== 'undefined') {
+          eagle.log.error(`Failed to start server: ${error.message}`);
+        } else {
+          console.error(`Failed to start server: ${error.message}`);
+        }
+        resolve(false);
+      });
+    });
+  }
+
   async stop(): Promise<void> {
     if (this.httpServer && this.isRunning) {
-      return new Promise((resolve) => {
-        this.httpServer.close(() => {
-          this.isRunning = false;
-          if (typeof eagle !== 'undefined') {
-            eagle.log.info('Eagle WebDAV server stopped');
-          }
-          resolve();
-        });
-      });
+      const servers = [this.httpServer, this.httpsServer].filter(server => server);
+      await Promise.all(servers.map(server => new Promise<void>((resolve) => server.close(() => resolve()))));
+      
+      this.isRunning = false;
+      this.httpsServer = null;
+      this.tlsFingerprint = null;
+      if (typeof eagle !== 'undefined') {
+        eagle.log.info('Eagle WebDAV server stopped');
+      }
     }
   }
 
+  private redirectToHTTPS(req: IncomingMessage, res: ServerResponse): void {
+    // 308 keeps the method and body, so WebDAV writes follow the redirect too
+    const host = (req.headers.host || this.config.host).replace(/:\d+$/, '');
+    res.setHeader('Location', `https://${host}:${this.config.httpsPort}${req.url || '/'}`);
+    res.writeHead(308);
+    res.end();
+  }
+
   private async handleRequest(req: any, res: any): Promise<void> {
     // Log all incoming requests
     console.log(`[DEBUG] ${req.method} ${req.url} - Headers:`, JSON.stringify(req.headers, null, 2));
     
     // Set CORS headers
     res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS, PROPFIND, COPY, MOVE, MKCOL, LOCK, UNLOCK, PROPPATCH');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Depth, Destination, Overwrite');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS, PROPFIND, COPY, MOVE, MKCOL, LOCK, UNLOCK, PROPPATCH, SEARCH');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Depth, Destination, Overwrite, If, Lock-Token, Timeout, Range, If-Range, If-Match, If-None-Match, If-Modified-Since, If-Unmodified-Since');
+    res.setHeader('Access-Control-Expose-Headers', 'Lock-Token, ETag');
     
-    // Handle preflight requests
-    if (req.method === 'OPTIONS') {
+    // Handle CORS preflight requests (browsers send these without credentials)
+    if (req.method === 'OPTIONS' && req.headers.origin && req.headers['access-control-request-method']) {
       res.writeHead(200);
       res.end();
       return;
@@ -127,15 +201,44 @@ export class EagleWebDAVServer {
     const method = req.method;
 
     try {
-      if (method === 'GET') {
-        await this.handleGetRequest(pathname, res);
-      } else if (method === 'PROPFIND') {
-        await this.handlePropfindRequest(pathname, req, res);
+      if (method === 'OPTIONS') {
+        await handleOPTIONS(pathname, req, res);
+      } else if (method === 'GET') {
+        await this.handleGetRequest(pathname, req, res);
       } else if (method === 'HEAD') {
-        await this.handleHeadRequest(pathname, res);
-      } else if (['COPY', 'MOVE', 'MKCOL', 'DELETE', 'PUT', 'LOCK', 'UNLOCK', 'PROPPATCH'].includes(method)) {
-        // Read-only server - reject write operations with proper WebDAV error
+        await this.handleHeadRequest(pathname, req, res);
+      } else if (['COPY', 'MOVE', 'MKCOL', 'DELETE', 'PUT', 'LOCK', 'UNLOCK', 'PROPPATCH'].includes(method) && isReadOnlyMode()) {
+        // Read-only mode - reject write operations with proper WebDAV error
         this.sendReadOnlyError(res, method);
+      } else if (['COPY', 'MOVE', 'MKCOL', 'DELETE', 'PUT', 'LOCK', 'UNLOCK', 'PROPPATCH'].includes(method) && pathname.startsWith('/thumbnails')) {
+        // Thumbnails are generated by Eagle and cannot be modified
+        this.sendReadOnlyError(res, method);
+      } else if (['PROPFIND', 'COPY', 'MOVE', 'DELETE', 'PUT', 'PROPPATCH'].includes(method) && !(await enforcePreconditions(method, pathname, req, res, this.sendResponse.bind(this)))) {
+        // If-Match/If-None-Match/If-Unmodified-Since failed - 412 already sent
+        return;
+      } else if (method === 'PROPFIND') {
+        await this.handlePropfindRequest(pathname, req, res);
+      } else if (method === 'SEARCH') {
+        await handleSEARCH(pathname, req, res, this.sendResponse.bind(this), this.sendXMLResponse.bind(this));
+      } else if (method === 'LOCK') {
+        await handleLOCK(pathname, req, res, this.sendResponse.bind(this), this.sendXMLResponse.bind(this));
+      } else if (method === 'UNLOCK') {
+        await handleUNLOCK(pathname, req, res, this.sendResponse.bind(this));
+      } else if (['COPY', 'MOVE', 'MKCOL', 'DELETE', 'PUT', 'PROPPATCH'].includes(method) && !(await enforceLocks(method, pathname, req, res, this.sendResponse.bind(this)))) {
+        // Blocked by a lock - enforceLocks has already sent 412/423
+        return;
+      } else if (method === 'PUT') {
+        await handlePUT(pathname, req, res, this.sendResponse.bind(this));
+      } else if (method === 'MKCOL') {
+        await handleMKCOL(pathname, req, res, this.sendResponse.bind(this));
+      } else if (method === 'DELETE') {
+        await handleDELETE(pathname, req, res, this.sendResponse.bind(this));
+      } else if (method === 'COPY') {
+        await handleCOPY(pathname, req, res, this.sendResponse.bind(this));
+      } else if (method === 'MOVE') {
+        await handleMOVE(pathname, req, res, this.sendResponse.bind(this));
+      } else if (method === 'PROPPATCH') {
+        await handlePROPPATCH(pathname, req, res, this.sendResponse.bind(this), this.sendXMLResponse.bind(this));
       } else {
         this.sendResponse(res, 405, { error: 'Method not allowed' });
       }
@@ -145,25 +248,64 @@ export class EagleWebDAVServer {
     }
   }
 
-  private async handleGetRequest(pathname: string, res: any): Promise<void> {
+  private async handleGetRequest(pathname: string, req: IncomingMessage, res: any): Promise<void> {
+    // Give route handlers a file server that honors this request's Range headers
+    // and swaps in the thumbnail when the URL carries ?thumb=1
+    const wantsThumbnail = url.parse(req.url || '', true).query.thumb === '1';
+    const serveFileContent = async (file: EagleWebDAVFile, res: ServerResponse) => {
+      if (!wantsThumbnail) {
+        return this.serveFileContent(file, res, req);
+      }
+      const thumbnail = toThumbnailFile(file);
+      if (!thumbnail) {
+        this.sendResponse(res, 404, { error: 'Thumbnail not found' });
+        return;
+      }
+      return this.serveFileContent(thumbnail, res, req);
+    };
+
     if (pathname === '/') {
       // Root endpoint - return method not allowed for GET on collections
       this.sendMethodNotAllowedForCollection(res, pathname);
     } else if (pathname === '/allItems' || pathname === '/allItems/' || pathname.startsWith('/allItems/')) {
       // Use allItems route handler (handles both collection requests and file requests within allItems)
-      await handleAllItemsGET(pathname, res, this.sendResponse.bind(this), this.serveFileContent.bind(this));
+      await handleAllItemsGET(pathname, res, this.sendResponse.bind(this), serveFileContent);
     } else if (pathname === '/folders' || pathname === '/folders/' || pathname.startsWith('/folders/')) {
       // Use folder route handler (handles both folder requests and file requests within folders)
-      await handleFolderGET(pathname, res, this.sendResponse.bind(this), this.serveFileContent.bind(this));
+      await handleFolderGET(pathname, res, this.sendResponse.bind(this), serveFileContent);
     } else if (pathname === '/hierarchy' || pathname === '/hierarchy/' || pathname.startsWith('/hierarchy/')) {
       // Use hierarchy route handler (handles hierarchical folder structure and file requests)
-      await handleIndexGET(pathname, res, this.sendResponse.bind(this), this.serveFileContent.bind(this));
+      await handleIndexGET(pathname, res, this.sendResponse.bind(this), serveFileContent);
     } else if (pathname === '/tags' || pathname === '/tags/' || pathname.startsWith('/tags/')) {
       // Use tags route handler (handles both tag requests and file requests within tags)
-      await handleTagsGET(pathname, res, this.sendResponse.bind(this), this.serveFileContent.bind(this));
+      await handleTagsGET(pathname, res, this.sendResponse.bind(this), serveFileContent);
+    } else if (pathname === '/thumbnails' || pathname === '/thumbnails/' || pathname.startsWith('/thumbnails/')) {
+      // Use thumbnails route handler (mirrors hierarchy and tags with thumbnail files)
+      await handleThumbnailsGET(pathname, res, this.sendResponse.bind(this), serveFileContent);
+    } else if (pathname === '/smart' || pathname === '/smart/' || pathname.startsWith('/smart/')) {
+      // Use smart folder route handler (built-in views and saved filters)
+      await handleSmartGET(pathname, res, this.sendResponse.bind(this), serveFileContent);
+    } else if (pathname === '/search' || pathname === '/search/' || pathname.startsWith('/search/')) {
+      // Use search route handler (result collections only)
+      await handleSearchGET(pathname, res, this.sendResponse.bind(this));
+    } else if (pathname === '/timeline' || pathname === '/timeline/' || pathname.startsWith('/timeline/')) {
+      // Use timeline route handler (year/month/day by import date)
+      await handleTimelineGET(pathname, res, this.sendResponse.bind(this), serveFileContent);
+    } else if (pathname === '/types' || pathname === '/types/' || pathname.startsWith('/types/')) {
+      // Use types route handler (extensions and MIME families)
+      await handleTypesGET(pathname, res, this.sendResponse.bind(this), serveFileContent);
+    } else if (pathname === '/colors' || pathname === '/colors/' || pathname.startsWith('/colors/')) {
+      // Use colors route handler (palette hue families, grid and tolerance queries)
+      await handleColorsGET(pathname, res, this.sendResponse.bind(this), serveFileContent);
+    } else if (pathname === '/ratings' || pathname === '/ratings/' || pathname.startsWith('/ratings/')) {
+      // Use ratings route handler (exact and minimum star ratings)
+      await handleRatingsGET(pathname, res, this.sendResponse.bind(this), serveFileContent);
+    } else if (pathname === '/tagGroups' || pathname === '/tagGroups/' || pathname.startsWith('/tagGroups/')) {
+      // Use tag groups route handler
+      await handleTagGroupsGET(pathname, res, this.sendResponse.bind(this), serveFileContent);
     } else if (pathname.startsWith('/files/')) {
       // Use files route handler
-      await handleFilesGET(pathname, res, this.sendResponse.bind(this), this.serveFileContent.bind(this));
+      await handleFilesGET(pathname, res, this.sendResponse.bind(this), serveFileContent);
     } else if (pathname === '/health') {
       this.sendResponse(res, 200, { status: 'ok', uptime: process.uptime() });
     } else {
@@ -184,30 +326,65 @@ export class EagleWebDAVServer {
       
       console.log(`[DEBUG] PROPFIND request - Path: ${pathname}, Depth: ${depth}, Body: ${body.substring(0, 200)}`);
 
+      const propfindRequest = parsePropfindBody(body);
+      if (!propfindRequest) {
+        this.sendResponse(res, 400, { error: 'Invalid PROPFIND body' });
+        return;
+      }
+
+      // Restrict multistatus responses to the requested properties
+      const sendXMLResponse = (res: ServerResponse, statusCode: number, xml: string) => {
+        this.sendXMLResponse(res, statusCode, statusCode === 207 ? applyPropfindRequest(xml, propfindRequest) : xml);
+      };
+
       try {
         if (pathname === '/') {
           // Root endpoint
           const containers = await getRootContainer();
           const xml = generateFolderContentXML(pathname, containers, isDepthZero);
-          this.sendXMLResponse(res, 207, xml);
+          sendXMLResponse(res, 207, xml);
         } else if (pathname === '/allItems' || pathname === '/allItems/' || pathname.startsWith('/allItems/')) {
           // Use allItems route handler (handles both collection and individual file PROPFIND)
-          await handleAllItemsPROPFIND(pathname, req, res, this.sendXMLResponse.bind(this), this.generateSingleFilePROPFIND.bind(this));
+          await handleAllItemsPROPFIND(pathname, req, res, sendXMLResponse, this.generateSingleFilePROPFIND.bind(this));
         } else if (pathname === '/folders' || pathname === '/folders/') {
           // Use folder route handler
-          await handleFolderPROPFIND(pathname, req, res, this.sendXMLResponse.bind(this));
+          await handleFolderPROPFIND(pathname, req, res, sendXMLResponse, this.generateSingleFilePROPFIND.bind(this));
         } else if (pathname === '/hierarchy' || pathname === '/hierarchy/' || pathname.startsWith('/hierarchy/')) {
           // Use hierarchy route handler (handles hierarchical folder structure PROPFIND)
-          await handleIndexPROPFIND(pathname, req, res, this.sendXMLResponse.bind(this), this.generateSingleFilePROPFIND.bind(this));
+          await handleIndexPROPFIND(pathname, req, res, sendXMLResponse, this.generateSingleFilePROPFIND.bind(this));
         } else if (pathname === '/tags' || pathname === '/tags/' || pathname.startsWith('/tags/')) {
           // Use tags route handler
-          await handleTagsPROPFIND(pathname, req, res);
+          await handleTagsPROPFIND(pathname, req, res, sendXMLResponse, this.generateSingleFilePROPFIND.bind(this));
+        } else if (pathname === '/thumbnails' || pathname === '/thumbnails/' || pathname.startsWith('/thumbnails/')) {
+          // Use thumbnails route handler
+          await handleThumbnailsPROPFIND(pathname, req, res, sendXMLResponse, this.generateSingleFilePROPFIND.bind(this));
+        } else if (pathname === '/smart' || pathname === '/smart/' || pathname.startsWith('/smart/')) {
+          // Use smart folder route handler
+          await handleSmartPROPFIND(pathname, req, res, sendXMLResponse, this.generateSingleFilePROPFIND.bind(this));
+        } else if (pathname === '/search' || pathname === '/search/' || pathname.startsWith('/search/')) {
+          // Use search route handler
+          await handleSearchPROPFIND(pathname, req, res, sendXMLResponse);
+        } else if (pathname === '/timeline' || pathname === '/timeline/' || pathname.startsWith('/timeline/')) {
+          // Use timeline route handler
+          await handleTimelinePROPFIND(pathname, req, res, sendXMLResponse, this.generateSingleFilePROPFIND.bind(this));
+        } else if (pathname === '/types' || pathname === '/types/' || pathname.startsWith('/types/')) {
+          // Use types route handler
+          await handleTypesPROPFIND(pathname, req, res, sendXMLResponse, this.generateSingleFilePROPFIND.bind(this));
+        } else if (pathname === '/colors' || pathname === '/colors/' || pathname.startsWith('/colors/')) {
+          // Use colors route handler
+          await handleColorsPROPFIND(pathname, req, res, sendXMLResponse, this.generateSingleFilePROPFIND.bind(this));
+        } else if (pathname === '/ratings' || pathname === '/ratings/' || pathname.startsWith('/ratings/')) {
+          // Use ratings route handler
+          await handleRatingsPROPFIND(pathname, req, res, sendXMLResponse, this.generateSingleFilePROPFIND.bind(this));
+        } else if (pathname === '/tagGroups' || pathname === '/tagGroups/' || pathname.startsWith('/tagGroups/')) {
+          // Use tag groups route handler
+          await handleTagGroupsPROPFIND(pathname, req, res, sendXMLResponse, this.generateSingleFilePROPFIND.bind(this));
         } else if (pathname.startsWith('/folders/')) {
           // Use folder route handler
-          await handleFolderPROPFIND(pathname, req, res, this.sendXMLResponse.bind(this));
+          await handleFolderPROPFIND(pathname, req, res, sendXMLResponse, this.generateSingleFilePROPFIND.bind(this));
         } else if (pathname.startsWith('/files/')) {
           // Use files route handler
-          await handleFilesPROPFIND(pathname, req, res, this.sendXMLResponse.bind(this), this.generateSingleFilePROPFIND.bind(this));
+          await handleFilesPROPFIND(pathname, req, res, sendXMLResponse, this.generateSingleFilePROPFIND.bind(this));
         } else {
           this.sendResponse(res, 404, { error: 'Not found' });
         }
@@ -218,10 +395,10 @@ export class EagleWebDAVServer {
     });
   }
 
-  private async handleHeadRequest(pathname: string, res: any): Promise<void> {
+  private async handleHeadRequest(pathname: string, req: IncomingMessage, res: any): Promise<void> {
     if (pathname.startsWith('/files/')) {
       // Use files route handler
-      await handleFilesHEAD(pathname, res);
+      await handleFilesHEAD(pathname, req, res);
     } else {
       // For collections, just return 200
       res.writeHead(200);
@@ -229,19 +406,25 @@ export class EagleWebDAVServer {
     }
   }
 
-  private async serveFileContent(file: any, res: any): Promise<void> {
+  private async serveFileContent(file: any, res: any, req?: IncomingMessage): Promise<void> {
     try {
       console.log(`[DEBUG] Serving file: ${file.name}, size: ${file.size}, path: ${file.path || file.filePath}`);
       
-      // Set proper headers
-      res.setHeader('Content-Type', file.mimeType || 'application/octet-stream');
-      res.setHeader('Content-Length', file.size || 0);
-      
       // Properly encode filename for Content-Disposition header (RFC 6266)
       const filename = file.name || 'download';
       const encodedFilename = encodeURIComponent(filename);
       res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodedFilename}`);
-      
+
+      if (file.sidecarContent !== undefined) {
+        // Metadata sidecars are generated in memory rather than read from disk
+        res.setHeader('Content-Type', file.mimeType);
+        res.setHeader('Content-Length', Buffer.byteLength(file.sidecarContent));
+        res.setHeader('ETag', file.etag);
+        res.writeHead(200);
+        res.end(file.sidecarContent);
+        return;
+      }
+
       const filePath = file.path || file.filePath;
       if (filePath && typeof eagle !== 'undefined') {
         // Stream file from Eagle
@@ -249,30 +432,7 @@ export class EagleWebDAVServer {
         if (fs.existsSync(filePath)) {
           console.log(`[DEBUG] File exists at: ${filePath}, starting stream`);
           
-          // Write response headers before streaming
-          res.writeHead(200);
-          
-          const stream = fs.createReadStream(filePath);
-          
-          stream.on('error', (error: any) => {
-            console.error(`[DEBUG] File streaming error for ${file.name}:`, error);
-            if (!res.headersSent) {
-              res.writeHead(500);
-              res.end('File streaming error');
-            } else {
-              res.destroy();
-            }
-          });
-          
-          stream.on('end', () => {
-            console.log(`[DEBUG] File streaming completed for: ${file.name}`);
-          });
-          
-          stream.on('close', () => {
-            console.log(`[DEBUG] File stream closed for: ${file.name}`);
-          });
-          
-          stream.pipe(res);
+          serveFile(req, res, filePath, file.mimeType || 'application/octet-stream', { etag: file.etag, lastModified: file.lastModified });
           return;
         } else {
           console.error(`[DEBUG] File does not exist at path: ${filePath}`);
@@ -342,10 +502,10 @@ export class EagleWebDAVServer {
   private generateSingleFilePROPFIND(requestPath: string, file: any): string {
     // Generate proper WebDAV PROPFIND response for a single file
     const filename = file.name + (file.ext ? `.${file.ext}` : '');
-    const lastModified = file.importedAt ? new Date(file.importedAt).toUTCString() : new Date().toUTCString();
+    const lastModified = new Date(file.lastModified).toUTCString();
     
     return `<?xml version="1.0" encoding="utf-8"?>
-<D:multistatus xmlns:D="DAV:">
+<D:multistatus xmlns:D="DAV:" xmlns:eagle="${EAGLE_NAMESPACE}">
   <D:response>
     <D:href>${encodeURI(requestPath)}</D:href>
     <D:propstat>
@@ -355,7 +515,7 @@ export class EagleWebDAVServer {
         <D:getcontentlength>${file.size || 0}</D:getcontentlength>
         <D:getlastmodified>${lastModified}</D:getlastmodified>
         <D:getcontenttype>${file.mimeType || 'application/octet-stream'}</D:getcontenttype>
-      </D:prop>
+${generateETagProperty(file.etag)}${generateEagleProperties(file)}${generateLockProperties(getItemLockKey(file.id))}      </D:prop>
       <D:status>HTTP/1.1 200 OK</D:status>
     </D:propstat>
   </D:response>
@@ -371,6 +531,11 @@ export class EagleWebDAVServer {
         password: password // Return actual password for UI copy functionality
       },
       serverUrl: `http://${username}:${password}@${this.config.host}:${this.config.port}/`,
+      https: this.httpsServer ? {
+        port: this.config.httpsPort,
+        fingerprint: this.tlsFingerprint,
+        redirect: isHTTPSRedirectEnabled()
+      } : null,
       credentials: {
         username,
         password
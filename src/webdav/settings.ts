@@ -0,0 +1,326 @@
+/**
+ * Settings module for Eagle WebDAV Server
+ * Persists user-configurable server options in localStorage
+ */
+
+import { SavedFilter } from './types';
+
+const SETTINGS_PREFIX = 'eagle-webdav-';
+
+/**
+ * Reads a raw setting value from localStorage
+ * @param key Setting key (without prefix)
+ * @returns Stored value or null if missing/unavailable
+ */
+function readSetting(key: string): string | null {
+  try {
+    return localStorage.getItem(SETTINGS_PREFIX + key);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Writes a raw setting value to localStorage
+ * @param key Setting key (without prefix)
+ * @param value Value to store
+ */
+function writeSetting(key: string, value: string): void {
+  try {
+    localStorage.setItem(SETTINGS_PREFIX + key, value);
+  } catch (error) {
+    console.error(`[DEBUG] Failed to persist setting ${key}:`, error);
+  }
+}
+
+/**
+ * Checks whether the server should reject all write operations
+ * Read-only until the user turns it off, as the server was before writes existed
+ * @returns True if read-only mode is enabled (defaults to true)
+ */
+export function isReadOnlyMode(): boolean {
+  return readSetting('read-only') !== 'false';
+}
+
+/**
+ * Enables or disables read-only mode
+ * @param readOnly Whether write operations should be rejected
+ */
+export function setReadOnlyMode(readOnly: boolean): void {
+  writeSetting('read-only', readOnly ? 'true' : 'false');
+}
+
+/**
+ * What DELETE does to a file addressed through /folders or /hierarchy
+ * - 'trash': move the item to the Eagle trash
+ * - 'unlink': only remove the item from that folder
+ */
+export type FolderDeleteMode = 'trash' | 'unlink';
+
+/**
+ * Gets the configured DELETE behaviour for files inside folders
+ * @returns Folder delete mode (defaults to 'trash')
+ */
+export function getFolderDeleteMode(): FolderDeleteMode {
+  return readSetting('folder-delete-mode') === 'unlink' ? 'unlink' : 'trash';
+}
+
+/**
+ * Sets the DELETE behaviour for files inside folders
+ * @param mode Folder delete mode
+ */
+export function setFolderDeleteMode(mode: FolderDeleteMode): void {
+  writeSetting('folder-delete-mode', mode);
+}
+
+/**
+ * Gets the user-defined smart folders shown under /smart/saved/
+ * @returns Saved filters (empty if none are stored or the stored value is invalid)
+ */
+export function getSavedFilters(): SavedFilter[] {
+  const raw = readSetting('saved-filters');
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const filters = JSON.parse(raw);
+    if (!Array.isArray(filters)) {
+      return [];
+    }
+    return filters.filter(entry => entry && typeof entry.name === 'string' && entry.filter && typeof entry.filter === 'object');
+  } catch (error) {
+    console.error('[DEBUG] Failed to parse saved filters:', error);
+    return [];
+  }
+}
+
+/**
+ * Adds a saved filter, replacing any existing filter with the same name
+ * @param name Folder name under /smart/saved/
+ * @param filter eagle.item.get options the folder lists
+ */
+export function saveFilter(name: string, filter: SavedFilter['filter']): void {
+  const filters = getSavedFilters().filter(entry => entry.name !== name);
+  filters.push({ name, filter });
+  writeSetting('saved-filters', JSON.stringify(filters));
+}
+
+/**
+ * Removes a saved filter
+ * @param name Folder name under /smart/saved/
+ * @returns True if a filter was removed
+ */
+export function removeSavedFilter(name: string): boolean {
+  const filters = getSavedFilters();
+  const remaining = filters.filter(entry => entry.name !== name);
+  if (remaining.length === filters.length) {
+    return false;
+  }
+  writeSetting('saved-filters', JSON.stringify(remaining));
+  return true;
+}
+
+/**
+ * How /allItems is split once the library exceeds the flat listing limit
+ * - 'page': fixed-size pages in import order (/allItems/page-001/)
+ * - 'month': import month (/allItems/2024-03/)
+ * - 'letter': first letter of the item name (/allItems/A/)
+ */
+export type AllItemsGrouping = 'page' | 'month' | 'letter';
+
+/**
+ * Gets the configured /allItems grouping for large libraries
+ * @returns Grouping mode (defaults to 'page')
+ */
+export function getAllItemsGrouping(): AllItemsGrouping {
+  const value = readSetting('all-items-grouping');
+  return value === 'month' || value === 'letter' ? value : 'page';
+}
+
+/**
+ * Sets the /allItems grouping for large libraries
+ * @param grouping Grouping mode
+ */
+export function setAllItemsGrouping(grouping: AllItemsGrouping): void {
+  writeSetting('all-items-grouping', grouping);
+}
+
+/**
+ * Default number of items per /allItems page
+ */
+const DEFAULT_ALL_ITEMS_PAGE_SIZE = 1000;
+
+/**
+ * Gets the number of items per /allItems page
+ * @returns Page size between 1 and 5000 (defaults to 1000)
+ */
+export function getAllItemsPageSize(): number {
+  const value = parseInt(readSetting('all-items-page-size') || '', 10);
+  return value > 0 ? Math.min(value, 5000) : DEFAULT_ALL_ITEMS_PAGE_SIZE;
+}
+
+/**
+ * Sets the number of items per /allItems page
+ * @param size Page size
+ */
+export function setAllItemsPageSize(size: number): void {
+  writeSetting('all-items-page-size', String(size));
+}
+
+/**
+ * Checks whether file listings include virtual metadata sidecars
+ * (<name>.<ext>.eagle.json and <name>.<ext>.xmp) next to every item
+ * @returns True if sidecar mode is enabled
+ */
+export function isMetadataSidecarMode(): boolean {
+  return readSetting('metadata-sidecars') === 'true';
+}
+
+/**
+ * Enables or disables metadata sidecar files in listings
+ * @param enabled Whether sidecars should be listed
+ */
+export function setMetadataSidecarMode(enabled: boolean): void {
+  writeSetting('metadata-sidecars', enabled ? 'true' : 'false');
+}
+
+/**
+ * Default lifetime of the library index in seconds
+ */
+const DEFAULT_LIBRARY_CACHE_TTL = 60;
+
+/**
+ * Gets how long the library index is reused before it is reloaded from Eagle
+ * Switching libraries or editing the library in Eagle rebuilds the index earlier
+ * @returns TTL in seconds, at least 1 (defaults to 60)
+ */
+export function getLibraryCacheTTL(): number {
+  const value = parseInt(readSetting('library-cache-ttl') || '', 10);
+  return value > 0 ? value : DEFAULT_LIBRARY_CACHE_TTL;
+}
+
+/**
+ * Sets how long the library index is reused before it is reloaded from Eagle
+ * @param seconds TTL in seconds
+ */
+export function setLibraryCacheTTL(seconds: number): void {
+  writeSetting('library-cache-ttl', String(seconds));
+}
+
+/**
+ * Gets the filename templates for exposed items, keyed by root container
+ * ('hierarchy', 'tags', ...); the '*' key applies to routes without their own template
+ * @returns Templates such as { hierarchy: '{name}_{width}x{height}.{ext}' } (empty if none are set)
+ */
+export function getFilenameTemplates(): Record<string, string> {
+  const raw = readSetting('filename-templates');
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const templates = JSON.parse(raw);
+    if (!templates || typeof templates !== 'object' || Array.isArray(templates)) {
+      return {};
+    }
+    const valid: Record<string, string> = {};
+    for (const [route, template] of Object.entries(templates)) {
+      if (typeof template === 'string' && template.trim()) {
+        valid[route] = template;
+      }
+    }
+    return valid;
+  } catch (error) {
+    console.error('[DEBUG] Failed to parse filename templates:', error);
+    return {};
+  }
+}
+
+/**
+ * Sets or clears the filename template of a root container
+ * @param route Root container name, or '*' for all routes without their own template
+ * @param template Template such as '{id}.{ext}', or null to restore item names
+ */
+export function setFilenameTemplate(route: string, template: string | null): void {
+  const templates = getFilenameTemplates();
+  if (template) {
+    templates[route] = template;
+  } else {
+    delete templates[route];
+  }
+  writeSetting('filename-templates', JSON.stringify(templates));
+}
+
+/**
+ * Default port of the HTTPS listener
+ */
+const DEFAULT_HTTPS_PORT = 41597;
+
+/**
+ * Checks whether the server also listens for HTTPS
+ * @returns True if the HTTPS listener is enabled
+ */
+export function isHTTPSEnabled(): boolean {
+  return readSetting('https') === 'true';
+}
+
+/**
+ * Enables or disables the HTTPS listener
+ * @param enabled Whether HTTPS should be served
+ */
+export function setHTTPSEnabled(enabled: boolean): void {
+  writeSetting('https', enabled ? 'true' : 'false');
+}
+
+/**
+ * Gets the port of the HTTPS listener
+ * @returns Port number (defaults to 41597)
+ */
+export function getHTTPSPort(): number {
+  const value = parseInt(readSetting('https-port') || '', 10);
+  return value > 0 && value < 65536 ? value : DEFAULT_HTTPS_PORT;
+}
+
+/**
+ * Sets the port of the HTTPS listener
+ * @param port Port number
+ */
+export function setHTTPSPort(port: number): void {
+  writeSetting('https-port', String(port));
+}
+
+/**
+ * Checks whether plain HTTP requests are redirected to the HTTPS listener
+ * @returns True if HTTP requests are redirected
+ */
+export function isHTTPSRedirectEnabled(): boolean {
+  return readSetting('https-redirect') === 'true';
+}
+
+/**
+ * Enables or disables redirecting HTTP requests to HTTPS
+ * @param enabled Whether HTTP requests should be redirected
+ */
+export function setHTTPSRedirectEnabled(enabled: boolean): void {
+  writeSetting('https-redirect', enabled ? 'true' : 'false');
+}
+
+/**
+ * Gets the user-provided certificate and private key files
+ * @returns PEM file paths, or null to use the generated self-signed certificate
+ */
+export function getCustomCertificatePaths(): { certPath: string; keyPath: string } | null {
+  const certPath = readSetting('https-cert-path');
+  const keyPath = readSetting('https-key-path');
+  return certPath && keyPath ? { certPath, keyPath } : null;
+}
+
+/**
+ * Sets or clears the user-provided certificate and private key files
+ * @param paths PEM file paths, or null to use the self-signed certificate
+ */
+export function setCustomCertificatePaths(paths: { certPath: string; keyPath: string } | null): void {
+  writeSetting('https-cert-path', paths ? paths.certPath : '');
+  writeSetting('https-key-path', paths ? paths.keyPath : '');
+}
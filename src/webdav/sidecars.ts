@@ -0,0 +1,303 @@
+/**
+ * Metadata sidecar files
+ * In sidecar mode every file listing also shows a virtual <name>.<ext>.eagle.json
+ * and <name>.<ext>.xmp next to each item, generated on the fly from its Eagle
+ * metadata. Uploading an edited sidecar writes the metadata back to the item.
+ */
+
+import crypto from 'crypto';
+import { EagleWebDAVFile, EagleWebDAVFolder } from './types';
+import { isMetadataSidecarMode } from './settings';
+import { EAGLE_NAMESPACE, escapeXML, getChildElements, paletteToHex, parseXML } from './xmlUtils';
+
+/**
+ * Sidecar formats
+ */
+export type SidecarKind = 'json' | 'xmp';
+
+/**
+ * Filename suffix appended to the item filename for each sidecar format
+ */
+const SIDECAR_SUFFIXES: Record<SidecarKind, string> = {
+  json: '.eagle.json',
+  xmp: '.xmp'
+};
+
+const RDF_NAMESPACE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const DC_NAMESPACE = 'http://purl.org/dc/elements/1.1/';
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/';
+
+/**
+ * Item metadata a sidecar upload can change
+ * Folders and palettes are export-only: membership follows the upload location
+ * and palettes are computed by Eagle
+ */
+export interface SidecarMetadata {
+  tags?: string[];
+  annotation?: string;
+  url?: string;
+  star?: number;
+}
+
+/**
+ * Gets the exposed filename of an item
+ * @param file Eagle WebDAV file
+ * @returns Name with extension
+ */
+function getFullName(file: EagleWebDAVFile): string {
+  return file.name + (file.ext ? `.${file.ext}` : '');
+}
+
+/**
+ * Generates the JSON sidecar of an item
+ * @param file Eagle WebDAV file
+ * @returns Pretty-printed JSON document
+ */
+function generateJSONSidecar(file: EagleWebDAVFile): string {
+  return JSON.stringify({
+    id: file.id,
+    name: file.name,
+    ext: file.ext || '',
+    tags: file.tags || [],
+    annotation: file.annotation || '',
+    url: file.url || '',
+    star: file.star || 0,
+    folders: file.folders || [],
+    palettes: file.palettes || []
+  }, null, 2) + '\n';
+}
+
+/**
+ * Generates the XMP sidecar of an item
+ * Tags map to dc:subject, the annotation to dc:description and the star rating
+ * to xmp:Rating; Eagle-only fields use the eagle: namespace
+ * @param file Eagle WebDAV file
+ * @returns XMP packet
+ */
+function generateXMPSidecar(file: EagleWebDAVFile): string {
+  const listItems = (values: string[]) => values.map(value => `<rdf:li>${escapeXML(value)}</rdf:li>`).join('');
+  const palettes = (file.palettes || []).map(palette =>
+    `<rdf:li rdf:parseType="Resource"><eagle:color>${paletteToHex(palette)}</eagle:color><eagle:ratio>${palette?.ratio ?? ''}</eagle:ratio></rdf:li>`).join('');
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="${RDF_NAMESPACE}">
+    <rdf:Description rdf:about="" xmlns:dc="${DC_NAMESPACE}" xmlns:xmp="${XMP_NAMESPACE}" xmlns:eagle="${EAGLE_NAMESPACE}">
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXML(file.name)}</rdf:li></rdf:Alt></dc:title>
+      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXML(file.annotation || '')}</rdf:li></rdf:Alt></dc:description>
+      <dc:subject><rdf:Bag>${listItems(file.tags || [])}</rdf:Bag></dc:subject>
+      <xmp:Rating>${file.star || 0}</xmp:Rating>
+      <eagle:id>${escapeXML(file.id)}</eagle:id>
+      <eagle:url>${escapeXML(file.url || '')}</eagle:url>
+      <eagle:folders><rdf:Bag>${listItems(file.folders || [])}</rdf:Bag></eagle:folders>
+      <eagle:palettes><rdf:Seq>${palettes}</rdf:Seq></eagle:palettes>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>
+`;
+}
+
+/**
+ * Converts a WebDAV file into one of its virtual metadata sidecars
+ * @param file Eagle WebDAV file
+ * @param kind Sidecar format
+ * @returns Sidecar file carrying its generated content
+ */
+export function createSidecarFile(file: EagleWebDAVFile, kind: SidecarKind): EagleWebDAVFile {
+  const content = kind === 'json' ? generateJSONSidecar(file) : generateXMPSidecar(file);
+  const digest = crypto.createHash('sha1').update(content).digest('hex').slice(0, 16);
+  const fullName = getFullName(file);
+
+  return {
+    ...file,
+    name: kind === 'json' ? `${fullName}.eagle` : fullName,
+    ext: kind,
+    size: Buffer.byteLength(content),
+    mimeType: kind === 'json' ? 'application/json' : 'application/rdf+xml',
+    path: '',
+    etag: `"${file.id}-${kind}-${digest}"`,
+    thumbnailPath: undefined,
+    sidecarContent: content
+  };
+}
+
+/**
+ * Adds the metadata sidecars of every file to a listing when sidecar mode is on
+ * Folders are passed through; each file is followed by its JSON and XMP sidecars
+ * @param items Folders and files of a collection
+ * @returns Listing with sidecars, or the items unchanged when sidecar mode is off
+ */
+export function withSidecarFiles<T extends EagleWebDAVFile | EagleWebDAVFolder>(items: T[]): (T | EagleWebDAVFile)[] {
+  if (!isMetadataSidecarMode()) {
+    return items;
+  }
+
+  const listing: (T | EagleWebDAVFile)[] = [];
+  for (const item of items) {
+    listing.push(item);
+    if (!('children' in item) && item.size !== undefined && !item.sidecarContent) {
+      listing.push(createSidecarFile(item, 'json'), createSidecarFile(item, 'xmp'));
+    }
+  }
+  return listing;
+}
+
+/**
+ * Splits a sidecar filename into the item filename and sidecar format
+ * @param filename Requested filename (decoded)
+ * @returns Item filename and format, or null if sidecar mode is off or the name is not a sidecar
+ */
+export function parseSidecarName(filename: string): { baseName: string; kind: SidecarKind } | null {
+  if (!isMetadataSidecarMode()) {
+    return null;
+  }
+
+  for (const kind of Object.keys(SIDECAR_SUFFIXES) as SidecarKind[]) {
+    const suffix = SIDECAR_SUFFIXES[kind];
+    if (filename.length > suffix.length && filename.toLowerCase().endsWith(suffix)) {
+      return { baseName: filename.slice(0, -suffix.length), kind };
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates a star rating from a sidecar
+ * @param value Raw rating value
+ * @returns Rating 0-5, or null if invalid
+ */
+function parseStar(value: unknown): number | null {
+  const star = Number(value);
+  return Number.isInteger(star) && star >= 0 && star <= 5 ? star : null;
+}
+
+/**
+ * Parses an uploaded JSON sidecar
+ * @param body Uploaded JSON text
+ * @returns Metadata to apply, or null if the document is invalid
+ */
+function parseJSONSidecar(body: string): SidecarMetadata | null {
+  let data: { tags?: unknown; annotation?: unknown; url?: unknown; star?: unknown } | null;
+  try {
+    data = JSON.parse(body);
+  } catch (error) {
+    return null;
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return null;
+  }
+
+  const metadata: SidecarMetadata = {};
+  if (data.tags !== undefined) {
+    if (!Array.isArray(data.tags)) return null;
+    metadata.tags = data.tags.map(tag => String(tag).trim()).filter(tag => tag);
+  }
+  if (data.annotation !== undefined) {
+    metadata.annotation = String(data.annotation);
+  }
+  if (data.url !== undefined) {
+    metadata.url = String(data.url).trim();
+  }
+  if (data.star !== undefined) {
+    const star = parseStar(data.star);
+    if (star === null) return null;
+    metadata.star = star;
+  }
+  return metadata;
+}
+
+/**
+ * Gets the rdf:li values of an XMP array property
+ * @param property Property element (e.g. dc:subject)
+ * @returns Trimmed, non-empty values
+ */
+function getListValues(property: Element): string[] {
+  const values: string[] = [];
+  for (const container of getChildElements(property)) {
+    for (const item of getChildElements(container, 'li')) {
+      const value = (item.textContent || '').trim();
+      if (value) values.push(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Reads a simple XMP property, written either as an element or as an
+ * attribute of rdf:Description
+ * @param doc Parsed XMP document
+ * @param namespace Property namespace
+ * @param name Property local name
+ * @returns Property value, or undefined if absent
+ */
+function getSimpleValue(doc: Document, namespace: string, name: string): string | undefined {
+  const element = doc.getElementsByTagNameNS(namespace, name)[0];
+  if (element) {
+    return (element.textContent || '').trim();
+  }
+  for (const description of Array.from(doc.getElementsByTagNameNS(RDF_NAMESPACE, 'Description'))) {
+    if (description.hasAttributeNS(namespace, name)) {
+      return (description.getAttributeNS(namespace, name) || '').trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses an uploaded XMP sidecar
+ * @param body Uploaded XMP packet
+ * @returns Metadata to apply, or null if the document is invalid
+ */
+function parseXMPSidecar(body: string): SidecarMetadata | null {
+  // Some editors save the packet with a leading byte order mark
+  const doc = parseXML(body.replace(/^\uFEFF/, ''));
+  if (!doc || doc.getElementsByTagNameNS(RDF_NAMESPACE, 'RDF').length === 0) {
+    return null;
+  }
+
+  const metadata: SidecarMetadata = {};
+  const subject = doc.getElementsByTagNameNS(DC_NAMESPACE, 'subject')[0];
+  if (subject) {
+    metadata.tags = getListValues(subject);
+  }
+  const description = doc.getElementsByTagNameNS(DC_NAMESPACE, 'description')[0];
+  if (description) {
+    metadata.annotation = getListValues(description)[0] || '';
+  }
+  const url = getSimpleValue(doc, EAGLE_NAMESPACE, 'url');
+  if (url !== undefined) {
+    metadata.url = url;
+  }
+  const rating = getSimpleValue(doc, XMP_NAMESPACE, 'Rating');
+  if (rating !== undefined && rating !== '') {
+    // XMP uses -1 for rejected items; Eagle has no equivalent, so treat it as unrated
+    const star = parseStar(Number(rating) < 0 ? 0 : rating);
+    if (star === null) return null;
+    metadata.star = star;
+  }
+  return metadata;
+}
+
+/**
+ * Parses an uploaded sidecar
+ * @param kind Sidecar format
+ * @param body Uploaded document
+ * @returns Metadata to apply, or null if the document is invalid
+ */
+export function parseSidecarMetadata(kind: SidecarKind, body: string): SidecarMetadata | null {
+  return kind === 'json' ? parseJSONSidecar(body) : parseXMPSidecar(body);
+}
+
+/**
+ * Applies uploaded sidecar metadata to an Eagle item
+ * Fields missing from the sidecar are left unchanged
+ * @param item Eagle item to modify
+ * @param metadata Parsed sidecar metadata
+ */
+export function applySidecarMetadata(item: Item, metadata: SidecarMetadata): void {
+  if (metadata.tags !== undefined) item.tags = metadata.tags;
+  if (metadata.annotation !== undefined) item.annotation = metadata.annotation;
+  if (metadata.url !== undefined) item.url = metadata.url;
+  if (metadata.star !== undefined) item.star = metadata.star;
+}
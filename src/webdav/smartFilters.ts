@@ -0,0 +1,98 @@
+/**
+ * Smart folder definitions for the /smart route
+ * Maps /smart paths onto eagle.item.get queries, including saved filters
+ */
+
+import { getAllEagleItems } from './eagleUtils';
+import { getSavedFilters } from './settings';
+import { EagleItemFilter } from './types';
+
+/**
+ * Shapes understood by eagle.item.get
+ */
+const SHAPES: NonNullable<EagleItemFilter['shape']>[] = ['square', 'portrait', 'panoramic-portrait', 'landscape', 'panoramic-landscape'];
+
+/**
+ * Star ratings that can be browsed under /smart/rating/
+ */
+const RATINGS = ['1', '2', '3', '4', '5'];
+
+/**
+ * Views listed at the /smart root
+ */
+const SMART_VIEWS = ['untagged', 'unfiled', 'rating', 'ext', 'shape', 'saved'];
+
+/**
+ * What a /smart path points at
+ * - index: a navigation collection listing further smart folders
+ * - filter: a smart folder whose children are the items matching the query
+ */
+export type SmartNode =
+  | { type: 'index'; name: string; children: string[] }
+  | { type: 'filter'; name: string; filter: EagleItemFilter };
+
+/**
+ * Lists the distinct extensions in the library for /smart/ext/
+ * @returns Sorted lowercase extensions (empty for libraries above the allItems limit)
+ */
+async function getLibraryExtensions(): Promise<string[]> {
+  const items = await getAllEagleItems();
+  const extensions = new Set<string>();
+  for (const item of items) {
+    if (item.ext) {
+      extensions.add(item.ext.toLowerCase());
+    }
+  }
+  return Array.from(extensions).sort();
+}
+
+/**
+ * Resolves the segments below /smart to a smart folder
+ * Any extension can be addressed under /smart/ext/, even if it is not listed
+ * @param segments Decoded path segments below /smart
+ * @returns Smart node, or null if the path is not a smart folder
+ */
+export async function resolveSmartPath(segments: string[]): Promise<SmartNode | null> {
+  const [view, value, ...rest] = segments;
+
+  if (!view) {
+    return { type: 'index', name: 'Smart', children: SMART_VIEWS };
+  }
+  if (rest.length > 0) {
+    return null;
+  }
+
+  switch (view) {
+    case 'untagged':
+      return value === undefined ? { type: 'filter', name: 'untagged', filter: { isUntagged: true } } : null;
+    case 'unfiled':
+      return value === undefined ? { type: 'filter', name: 'unfiled', filter: { isUnfiled: true } } : null;
+    case 'rating':
+      if (value === undefined) {
+        return { type: 'index', name: 'rating', children: RATINGS };
+      }
+      return RATINGS.includes(value) ? { type: 'filter', name: value, filter: { rating: parseInt(value, 10) } } : null;
+    case 'ext':
+      if (value === undefined) {
+        return { type: 'index', name: 'ext', children: await getLibraryExtensions() };
+      }
+      return { type: 'filter', name: value, filter: { ext: value.toLowerCase() } };
+    case 'shape': {
+      if (value === undefined) {
+        return { type: 'index', name: 'shape', children: SHAPES };
+      }
+      const shape = SHAPES.find(candidate => candidate === value);
+      return shape ? { type: 'filter', name: value, filter: { shape } } : null;
+    }
+    case 'saved': {
+      const saved = getSavedFilters();
+      if (value === undefined) {
+        return { type: 'index', name: 'saved', children: saved.map(entry => entry.name) };
+      }
+      const entry = saved.find(candidate => candidate.name === value);
+      return entry ? { type: 'filter', name: entry.name, filter: entry.filter } : null;
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Tag group index for the /tagGroups route
+ * Organizes tags by their Eagle tag group: /tagGroups/<group>/<tag>/<file>,
+ * with tags outside every group collected under _ungrouped
+ */
+
+import { getAllTagsWithCounts } from './eagleUtils';
+
+/**
+ * Bucket holding the tags that belong to no tag group
+ */
+export const UNGROUPED_BUCKET = '_ungrouped';
+
+/**
+ * A tag group below /tagGroups
+ */
+export interface TagGroupBucket {
+  name: string;
+  color?: string;
+  count: number;
+}
+
+/**
+ * A tag inside a tag group with its number of items
+ */
+export interface TagGroupTag {
+  name: string;
+  count: number;
+}
+
+/**
+ * Loads the Eagle tag groups
+ * @returns Tag groups with their tag names (empty if unavailable)
+ */
+async function loadTagGroups(): Promise<Array<{ name: string; color?: string; tags: string[] }>> {
+  if (typeof eagle === 'undefined' || !eagle.tagGroup) {
+    return [];
+  }
+
+  try {
+    const groups = await eagle.tagGroup.get();
+    if (!groups || !Array.isArray(groups)) {
+      return [];
+    }
+    return groups.map(group => ({ name: group.name, color: group.color, tags: group.tags || [] }));
+  } catch (error) {
+    console.error('[DEBUG] Error getting tag groups:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets the tags of a tag group with their item counts
+ * @param groupName Tag group name, or UNGROUPED_BUCKET for tags in no group
+ * @param groups Loaded tag groups
+ * @param tags All library tags with counts
+ * @returns Tags sorted by name, or null if there is no such group
+ */
+function collectGroupTags(
+  groupName: string,
+  groups: Array<{ name: string; tags: string[] }>,
+  tags: TagGroupTag[]
+): TagGroupTag[] | null {
+  let members: Set<string>;
+  if (groupName === UNGROUPED_BUCKET) {
+    const grouped = new Set(groups.flatMap(group => group.tags));
+    members = new Set(tags.map(tag => tag.name).filter(name => !grouped.has(name)));
+  } else {
+    const group = groups.find(candidate => candidate.name === groupName);
+    if (!group) {
+      return null;
+    }
+    members = new Set(group.tags);
+  }
+
+  const counts = new Map<string, number>(tags.map(tag => [tag.name, tag.count || 0]));
+  return Array.from(members)
+    .sort((a, b) => a.localeCompare(b))
+    .map(name => ({ name, count: counts.get(name) || 0 }));
+}
+
+/**
+ * Lists the tag groups with the number of tags in each
+ * @returns Tag groups in Eagle order, followed by _ungrouped when some tags are in no group
+ */
+export async function getTagGroupBuckets(): Promise<TagGroupBucket[]> {
+  const groups = await loadTagGroups();
+  const buckets: TagGroupBucket[] = groups.map(group => ({ name: group.name, color: group.color, count: group.tags.length }));
+
+  const ungrouped = collectGroupTags(UNGROUPED_BUCKET, groups, await getAllTagsWithCounts()) || [];
+  if (ungrouped.length > 0) {
+    buckets.push({ name: UNGROUPED_BUCKET, count: ungrouped.length });
+  }
+  return buckets;
+}
+
+/**
+ * Gets a tag group with its tags
+ * @param groupName Tag group name or UNGROUPED_BUCKET
+ * @returns The group and its tags, or null if there is no such group
+ */
+export async function getTagGroup(groupName: string): Promise<{ group: TagGroupBucket; tags: TagGroupTag[] } | null> {
+  const groups = await loadTagGroups();
+  const tags = collectGroupTags(groupName, groups, await getAllTagsWithCounts());
+  if (!tags) {
+    return null;
+  }
+
+  const color = groups.find(group => group.name === groupName)?.color;
+  return { group: { name: groupName, color, count: tags.length }, tags };
+}
+
+/**
+ * Checks whether a tag belongs to a tag group
+ * @param groupName Tag group name or UNGROUPED_BUCKET
+ * @param tagName Tag name
+ * @returns True if the tag is listed under the group
+ */
+export async function isTagInGroup(groupName: string, tagName: string): Promise<boolean> {
+  const entry = await getTagGroup(groupName);
+  return !!entry && entry.tags.some(tag => tag.name === tagName);
+}
@@ -0,0 +1,88 @@
+/**
+ * Timeline index for the /timeline route
+ * Groups library items by import date into year, month and day buckets
+ */
+
+import { getLibraryItems } from './eagleUtils';
+import { EagleWebDAVFile } from './types';
+
+/**
+ * A year, month or day below /timeline with its number of items
+ */
+export interface TimelineBucket {
+  name: string;
+  count: number;
+}
+
+/**
+ * Gets the local import date of a file as timeline path segments
+ * @param file Eagle WebDAV file
+ * @returns ['YYYY', 'MM', 'DD'], or null without an import date
+ */
+function getDateSegments(file: EagleWebDAVFile): string[] | null {
+  if (!file.importedAt) {
+    return null;
+  }
+  const date = new Date(file.importedAt);
+  return [
+    String(date.getFullYear()),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0')
+  ];
+}
+
+/**
+ * Checks whether a file was imported within a timeline prefix
+ * @param dateSegments Import date segments of the file
+ * @param prefix Requested segments (year, month, day)
+ * @returns True if all requested segments match
+ */
+function matchesPrefix(dateSegments: string[], prefix: string[]): boolean {
+  return prefix.every((segment, index) => dateSegments[index] === segment);
+}
+
+/**
+ * Gets the child buckets of a timeline level with their item counts
+ * Only the counts for the requested level are computed; items are listed at day level
+ * @param segments Year and month segments below /timeline (0 to 2)
+ * @returns Buckets sorted newest first, or null if no item was imported in that period
+ */
+export async function getTimelineBuckets(segments: string[]): Promise<TimelineBucket[] | null> {
+  if (segments.length > 2) {
+    return null;
+  }
+
+  const counts = new Map<string, number>();
+  for (const item of await getLibraryItems()) {
+    const dateSegments = getDateSegments(item);
+    if (dateSegments && matchesPrefix(dateSegments, segments)) {
+      const key = dateSegments[segments.length];
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  }
+
+  if (segments.length > 0 && counts.size === 0) {
+    return null;
+  }
+
+  return Array.from(counts.entries())
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => (a.name < b.name ? 1 : a.name > b.name ? -1 : 0));
+}
+
+/**
+ * Gets the items imported on one day
+ * @param segments Year, month and day segments below /timeline
+ * @returns Files imported that day, or null if there are none
+ */
+export async function getTimelineItems(segments: string[]): Promise<EagleWebDAVFile[] | null> {
+  if (segments.length !== 3) {
+    return null;
+  }
+
+  const items = (await getLibraryItems()).filter(item => {
+    const dateSegments = getDateSegments(item);
+    return dateSegments !== null && matchesPrefix(dateSegments, segments);
+  });
+  return items.length > 0 ? items : null;
+}
@@ -4,6 +4,7 @@
 
 export interface WebDAVServerConfig {
   port: number;
+  httpsPort?: number; // Set while the HTTPS listener is enabled
   host: string;
   password: string;
 }
@@ -15,7 +16,36 @@ export interface EagleWebDAVFile {
   mimeType: string;
   path: string;
   lastModified: Date;
+  importedAt?: number; // When the item was added to Eagle (ms since epoch)
+  etag?: string; // Strong entity tag derived from id, file mtime and size
   ext?: string; // Extension from Eagle item
+  tags?: string[];
+  folders?: string[];
+  annotation?: string;
+  star?: number;
+  url?: string;
+  width?: number;
+  height?: number;
+  palettes?: EaglePalette[];
+  thumbnailPath?: string;
+  sidecarContent?: string; // Generated body of a virtual metadata sidecar file
+}
+
+/**
+ * Dominant color of an item as computed by Eagle
+ */
+export interface EaglePalette {
+  color?: number[]; // [r, g, b]
+  ratio?: number;   // Share of the image in percent
+}
+
+/**
+ * Library tag as returned by eagle.tag.get
+ */
+export interface EagleTag {
+  id: string;
+  name: string;
+  count?: number;
 }
 
 export interface EagleWebDAVFolder {
@@ -26,10 +56,33 @@ export interface EagleWebDAVFolder {
   children: (EagleWebDAVFile | EagleWebDAVFolder)[];
 }
 
+/**
+ * Item query accepted by eagle.item.get, used by smart folders and saved filters
+ */
+export interface EagleItemFilter {
+  keywords?: string[];
+  tags?: string[];
+  folders?: string[];
+  ext?: string;
+  annotation?: string;
+  rating?: number;
+  shape?: 'square' | 'portrait' | 'panoramic-portrait' | 'landscape' | 'panoramic-landscape';
+  isUntagged?: boolean;
+  isUnfiled?: boolean;
+}
+
+/**
+ * A user-defined smart folder exposed under /smart/saved/
+ */
+export interface SavedFilter {
+  name: string;
+  filter: EagleItemFilter;
+}
+
 /**
  * WebDAV request types
  */
-export type WebDAVMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'HEAD' | 'OPTIONS' | 'PROPFIND' | 'PROPPATCH' | 'MKCOL' | 'COPY' | 'MOVE' | 'LOCK' | 'UNLOCK';
+export type WebDAVMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'HEAD' | 'OPTIONS' | 'PROPFIND' | 'PROPPATCH' | 'MKCOL' | 'COPY' | 'MOVE' | 'LOCK' | 'UNLOCK' | 'SEARCH';
 
 /**
  * WebDAV depth header values
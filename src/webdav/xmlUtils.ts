@@ -3,6 +3,13 @@
  * Shared utilities for generating and formatting XML responses
  */
 
+import { EaglePalette, EagleWebDAVFile } from './types';
+
+/**
+ * XML namespace for Eagle-specific WebDAV properties
+ */
+export const EAGLE_NAMESPACE = 'https://eagle.cool/ns/webdav/';
+
 /**
  * Escapes special XML characters in text content
  * @param text Text to escape
@@ -31,7 +38,7 @@ export function getXMLDeclaration(): string {
  * @returns WebDAV multistatus opening XML
  */
 export function getMultistatusOpen(): string {
-  return '<D:multistatus xmlns:D="DAV:">\n';
+  return `<D:multistatus xmlns:D="DAV:" xmlns:eagle="${EAGLE_NAMESPACE}">\n`;
 }
 
 /**
@@ -142,6 +149,72 @@ export function generateContentType(mimeType: string): string {
   return `        <D:getcontenttype>${mimeType}</D:getcontenttype>\n`;
 }
 
+/**
+ * Generates a WebDAV getetag element
+ * @param etag Quoted entity tag (omitted when undefined)
+ * @returns WebDAV getetag XML element
+ */
+export function generateETagProperty(etag?: string): string {
+  if (!etag) return '';
+  return `        <D:getetag>${etag}</D:getetag>\n`;
+}
+
+/**
+ * Generates the Eagle item count property of a virtual collection
+ * @param count Number of items in the collection
+ * @returns eagle:count XML element
+ */
+export function generateItemCountProperty(count: number): string {
+  return `        <eagle:count>${count}</eagle:count>\n`;
+}
+
+/**
+ * Converts an Eagle palette color to a hex string
+ * @param palette Eagle palette entry ({ color: [r, g, b], ratio })
+ * @returns Hex color such as '#ff8800'
+ */
+export function paletteToHex(palette: EaglePalette | undefined): string {
+  const color = Array.isArray(palette?.color) ? palette.color : [];
+  return '#' + color.slice(0, 3).map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generates Eagle metadata properties for a file
+ * Elements use the eagle: prefix declared on the multistatus element
+ * @param file Eagle WebDAV file with metadata
+ * @returns Eagle property XML elements
+ */
+export function generateEagleProperties(file: EagleWebDAVFile): string {
+  if (!file || !file.id) return '';
+
+  let xml = `        <eagle:id>${escapeXML(file.id)}</eagle:id>\n`;
+  if (file.tags) {
+    xml += `        <eagle:tags>${file.tags.map((tag: string) => `<eagle:tag>${escapeXML(tag)}</eagle:tag>`).join('')}</eagle:tags>\n`;
+  }
+  if (file.folders) {
+    xml += `        <eagle:folders>${file.folders.map((id: string) => `<eagle:folder>${escapeXML(id)}</eagle:folder>`).join('')}</eagle:folders>\n`;
+  }
+  if (file.annotation !== undefined) {
+    xml += `        <eagle:annotation>${escapeXML(file.annotation)}</eagle:annotation>\n`;
+  }
+  if (file.star !== undefined) {
+    xml += `        <eagle:star>${file.star}</eagle:star>\n`;
+  }
+  if (file.url !== undefined) {
+    xml += `        <eagle:url>${escapeXML(file.url)}</eagle:url>\n`;
+  }
+  if (file.width) {
+    xml += `        <eagle:width>${file.width}</eagle:width>\n`;
+  }
+  if (file.height) {
+    xml += `        <eagle:height>${file.height}</eagle:height>\n`;
+  }
+  if (file.palettes) {
+    xml += `        <eagle:palettes>${file.palettes.map((palette: EaglePalette) => `<eagle:palette ratio="${palette?.ratio ?? ''}">${paletteToHex(palette)}</eagle:palette>`).join('')}</eagle:palettes>\n`;
+  }
+  return xml;
+}
+
 /**
  * Checks if a path is already URL-encoded
  * @param path The path to check
@@ -279,4 +352,44 @@ export function normalizePath(path: string): string {
   
   // Return the normalized path
   return decodedPath;
-}
\ No newline at end of file
+}
+
+/**
+ * Parses an XML request body
+ * Relies on the DOMParser available in Eagle's plugin runtime
+ * @param body Raw XML string
+ * @returns Parsed document, or null if the body is empty or malformed
+ */
+export function parseXML(body: string): Document | null {
+  if (!body || !body.trim()) {
+    return null;
+  }
+  
+  try {
+    const doc = new DOMParser().parseFromString(body, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      return null;
+    }
+    return doc;
+  } catch (error) {
+    console.error('[DEBUG] Failed to parse XML body:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets the direct child elements of an XML element
+ * @param element Parent element
+ * @param localName Optional local name filter (namespace agnostic)
+ * @returns Child elements
+ */
+export function getChildElements(element: Element, localName?: string): Element[] {
+  const children: Element[] = [];
+  for (let i = 0; i < element.childNodes.length; i++) {
+    const node = element.childNodes[i];
+    if (node.nodeType === 1 && (!localName || (node as Element).localName === localName)) {
+      children.push(node as Element);
+    }
+  }
+  return children;
+}
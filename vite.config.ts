@@ -1,11 +1,34 @@
-import { defineConfig } from "vite";
+import { builtinModules } from "module";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+const NODE_BUILTIN_PREFIX = "\0node-builtin:";
+
+// Eagle runs the plugin page with Node integration, so Node built-ins
+// (`import fs from 'fs'`) are loaded with require at runtime instead of being
+// replaced by Vite's empty browser stubs. Import them as default imports.
+function nodeBuiltins(): Plugin {
+  return {
+    name: "node-builtins",
+    enforce: "pre",
+    resolveId(id) {
+      const name = id.replace(/^node:/, "");
+      return builtinModules.includes(name) ? NODE_BUILTIN_PREFIX + name : null;
+    },
+    load(id) {
+      if (!id.startsWith(NODE_BUILTIN_PREFIX)) {
+        return null;
+      }
+      return `export default require(${JSON.stringify(id.slice(NODE_BUILTIN_PREFIX.length))});`;
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
   base: "./",
   build: {
     outDir: "./dist",
   },
-  plugins: [react()],
+  plugins: [nodeBuiltins(), react()],
 });